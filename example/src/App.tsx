@@ -1,4 +1,5 @@
 import * as React from 'react';
+import {unstable_batchedUpdates} from 'react-dom';
 import {createStore, useAuger} from 'auger-state';
 import faker from 'faker';
 
@@ -17,7 +18,7 @@ const state: State = {
   ],
 };
 
-const store = createStore(state);
+const store = createStore(state, {scheduler: unstable_batchedUpdates});
 
 const ItemComp = React.memo((props: {id: number}) => {
   const state = useAuger(store);
@@ -45,9 +46,11 @@ ItemComp.displayName = 'Item';
 
 const Items = React.memo(() => {
   const state = useAuger(store);
-  const [items, updateItems] = state.items.$();
+  // Only subscribes to which items there are, so changing the count of an
+  // item doesn't rerender the whole list.
+  const keys = state.items.$keys();
   const onClick = () => {
-    updateItems((draft) => {
+    state.items.$update((draft) => {
       for (let i = 0; i < 10000; i++) {
         draft.push({
           name: faker.commerce.productName(),
@@ -72,7 +75,7 @@ const Items = React.memo(() => {
           </tr>
         </thead>
         <tbody>
-          {items.map((_, i) => {
+          {keys.map((i) => {
             return <ItemComp id={i} key={i} />;
           })}
         </tbody>
@@ -0,0 +1,199 @@
+import {createStore, recordActions, replayLog} from '.';
+import type {Commit} from '.';
+
+type Todo = {text: string; isDone: boolean};
+type TestState = {
+  todos: Todo[];
+  tags: Map<string, Set<string>>;
+  counter: number;
+};
+
+function createTestStore() {
+  const state: TestState = {todos: [], tags: new Map(), counter: 0};
+  return createStore(state, {scheduler: 'sync', history: {}});
+}
+
+describe('named updates', () => {
+  it('passes the name and payload to commit listeners', () => {
+    const store = createTestStore();
+    const commits: Commit<TestState>[] = [];
+    store.onCommit((commit) => commits.push(commit));
+
+    store.update(
+      (draft) => {
+        draft.counter += 2;
+      },
+      {name: 'counter/add', payload: 2},
+    );
+    store.update((draft) => {
+      draft.counter++;
+    });
+    expect(commits[0].action).toEqual({name: 'counter/add', payload: 2});
+    expect(commits[1].action).toBeUndefined();
+  });
+
+  it('names the updates of focused stores', () => {
+    const store = createTestStore();
+    const listener = jest.fn();
+    store.onCommit(listener);
+    store
+      .focus<Todo[]>(['todos'])
+      .update(
+        (todos) => {
+          todos.push({text: 'Test', isDone: false});
+        },
+        {name: 'todos/add'},
+      );
+    expect(listener.mock.calls[0][0].action).toEqual({name: 'todos/add'});
+  });
+});
+
+describe('defineActions', () => {
+  it('creates functions that make named updates', () => {
+    const store = createTestStore();
+    const listener = jest.fn();
+    store.onCommit(listener);
+    const todos = store.defineActions(
+      {
+        add(draft, text: string) {
+          draft.todos.push({text, isDone: false});
+        },
+        toggle(draft, index: number) {
+          draft.todos[index].isDone = !draft.todos[index].isDone;
+        },
+        clear(draft) {
+          draft.todos = [];
+        },
+      },
+      {namespace: 'todos'},
+    );
+
+    todos.add('Write tests');
+    todos.toggle(0);
+    expect(store.getState().todos).toEqual([
+      {text: 'Write tests', isDone: true},
+    ]);
+    expect(listener.mock.calls.map(([commit]) => commit.action)).toEqual([
+      {name: 'todos/add', payload: 'Write tests'},
+      {name: 'todos/toggle', payload: 0},
+    ]);
+
+    todos.clear();
+    expect(listener.mock.calls[2][0].action.name).toBe('todos/clear');
+  });
+
+  it('names actions after their keys without a namespace', () => {
+    const store = createTestStore();
+    const listener = jest.fn();
+    store.onCommit(listener);
+    const {increment} = store.defineActions({
+      increment(draft, amount: number = 1) {
+        draft.counter += amount;
+      },
+    });
+    increment();
+    expect(store.getState().counter).toBe(1);
+    expect(listener.mock.calls[0][0].action).toEqual({
+      name: 'increment',
+      payload: undefined,
+    });
+  });
+});
+
+describe('recordActions', () => {
+  function recordSession() {
+    const store = createTestStore();
+    const write = jest.fn();
+    const recorder = recordActions(store, {write});
+    const actions = store.defineActions({
+      add(draft, text: string) {
+        draft.todos.push({text, isDone: false});
+      },
+      tag(draft, {tag, text}: {tag: string; text: string}) {
+        const tags = draft.tags.get(tag) ?? new Set();
+        tags.add(text);
+        draft.tags.set(tag, tags);
+      },
+    });
+    actions.add('Write tests');
+    actions.tag({tag: 'work', text: 'Write tests'});
+    actions.add('Ship it');
+    store.undo();
+    recorder.stop();
+    actions.add('Not recorded');
+    return {store, write, log: recorder.getLog()};
+  }
+
+  it('writes the initial state and every change as JSON lines', () => {
+    const {write, log} = recordSession();
+    const lines = log.split('\n');
+    expect(lines).toHaveLength(5);
+    expect(write.mock.calls.map(([line]) => line)).toEqual(lines);
+
+    const entries = lines.map((line) => JSON.parse(line));
+    expect(entries[0]).toEqual({
+      type: 'init',
+      state: {
+        todos: [],
+        tags: {__augerType: 'Map', entries: []},
+        counter: 0,
+      },
+    });
+    expect(entries.slice(1).map((entry) => entry.name)).toEqual([
+      'add',
+      'tag',
+      'add',
+      null,
+    ]);
+    expect(entries[1].patches).toEqual([
+      {
+        op: 'add',
+        path: ['todos', 0],
+        value: {text: 'Write tests', isDone: false},
+      },
+    ]);
+  });
+
+  it('replays a log step by step', () => {
+    const {store: recorded, log} = recordSession();
+    const store = createTestStore();
+    const replay = replayLog(store, log);
+    expect(store.getState().todos).toEqual([]);
+    expect(replay.actions).toHaveLength(4);
+
+    expect(replay.step()!.name).toBe('add');
+    expect(store.getState().todos).toEqual([
+      {text: 'Write tests', isDone: false},
+    ]);
+    replay.step();
+    expect(store.getState().tags.get('work')).toEqual(new Set(['Write tests']));
+
+    replay.run();
+    expect(replay.position).toBe(4);
+    expect(replay.step()).toBeUndefined();
+    expect(store.getState().todos).toEqual([
+      {text: 'Write tests', isDone: false},
+    ]);
+    expect(recorded.getState().todos).toHaveLength(2);
+  });
+
+  it('records a replay with the same names', () => {
+    const {log} = recordSession();
+    const store = createTestStore();
+    const recorder = recordActions(store);
+    replayLog(store, log).run();
+    const names = (text: string) =>
+      text
+        .split('\n')
+        .map((line) => JSON.parse(line))
+        .filter((entry) => entry.type === 'action')
+        .map((entry) => entry.name);
+    // The reset to the initial state of the log is recorded first
+    expect(names(recorder.getLog())).toEqual([null, ...names(log)]);
+  });
+
+  it('throws for a log without an initial state', () => {
+    const store = createTestStore();
+    expect(() => replayLog(store, '')).toThrow(/has to start with the state/);
+  });
+});
@@ -0,0 +1,153 @@
+import type {Draft, Patch} from 'immer';
+import type {AugerStore, StoreLike} from './store';
+import {serialize, deserialize} from './serialize';
+
+// The updaters passed to `store.defineActions`. Each one takes the draft of
+// the state and the payload the action is called with.
+export type ActionDefinitions<T> = {
+  [name: string]: (draft: Draft<T>, payload: any) => void | T;
+};
+
+// The functions that `store.defineActions` returns, one for each definition
+// that takes the payload of the definition.
+export type Actions<A> = {
+  [K in keyof A]: A[K] extends (draft: any, ...payload: infer P) => any
+    ? (...payload: P) => void
+    : never;
+};
+
+export type DefineActionsOptions = {
+  // Prefixes the name of every action, ex 'todos' names the `add` action
+  // 'todos/add'.
+  namespace?: string;
+};
+
+export function defineActions<T, A extends ActionDefinitions<T>>(
+  store: StoreLike<T>,
+  definitions: A,
+  options: DefineActionsOptions = {},
+): Actions<A> {
+  const actions: any = {};
+  for (const key of Object.keys(definitions)) {
+    const name = options.namespace ? `${options.namespace}/${key}` : key;
+    actions[key] = (payload?: unknown) =>
+      store.update((draft) => definitions[key](draft, payload), {
+        name,
+        payload,
+      });
+  }
+  return actions;
+}
+
+// A line of an action log. The log starts with the state when recording
+// started, followed by every change to the store after that. Changes that
+// weren't made by a named update (ex undo or a batch) have a null name.
+export type LogEntry =
+  | {type: 'init'; state: unknown}
+  | {type: 'action'; name: string | null; payload?: unknown; patches: Patch[]};
+
+export type LoggedAction = Extract<LogEntry, {type: 'action'}>;
+
+export type RecorderOptions = {
+  // Called with every line of the log as it is recorded, ex to stream the
+  // log to a file or a server.
+  write?: (line: string) => void;
+};
+
+export type ActionRecorder = {
+  // The log recorded so far, one JSON object per line.
+  getLog(): string;
+  // Stops recording.
+  stop(): void;
+};
+
+// Records the state of a store and every change made to it after that to a
+// JSON lines log. The log can be attached to a bug report and replayed with
+// `replayLog` to get the store back to the same state one step at a time.
+export function recordActions<T>(
+  store: AugerStore<T>,
+  options: RecorderOptions = {},
+): ActionRecorder {
+  const lines: string[] = [];
+  const write = (entry: LogEntry) => {
+    const line = serialize(entry);
+    lines.push(line);
+    options.write?.(line);
+  };
+
+  write({type: 'init', state: store.getState()});
+  const unsubCommit = store.onCommit(({patches, action}) => {
+    write({
+      type: 'action',
+      name: action?.name ?? null,
+      payload: action?.payload,
+      patches,
+    });
+  });
+
+  return {
+    getLog() {
+      return lines.join('\n');
+    },
+    stop: unsubCommit,
+  };
+}
+
+export type LogReplay = {
+  // The actions in the log, in the order they were recorded.
+  actions: LoggedAction[];
+  // The number of actions that have been applied.
+  position: number;
+  // Applies the next action in the log and returns it, or undefined if
+  // every action has been applied.
+  step(): LoggedAction | undefined;
+  // Applies every action that hasn't been applied yet.
+  run(): void;
+};
+
+// Replays a log created by `recordActions`. The store is reset to the state
+// the log starts with, then each call to `step` applies the patches of the
+// next action, so the store goes through exactly the states it went through
+// when the log was recorded. The actions are applied with their names, so a
+// store that is being recorded records them again. Ex:
+//
+// const replay = replayLog(store, log);
+// replay.step();
+// expect(store.getState().todos).toHaveLength(1);
+// replay.run();
+export function replayLog<T>(store: AugerStore<T>, log: string): LogReplay {
+  const entries = log
+    .split('\n')
+    .filter((line) => line.trim())
+    .map((line) => deserialize<LogEntry>(line));
+  const [init, ...rest] = entries;
+  if (!init || init.type !== 'init') {
+    throw new Error(
+      'auger-state: An action log has to start with the state of the store, use recordActions to create one.',
+    );
+  }
+  store.setState(init.state as T);
+
+  const replay: LogReplay = {
+    actions: rest.filter(
+      (entry): entry is LoggedAction => entry.type === 'action',
+    ),
+    position: 0,
+    step() {
+      const action = replay.actions[replay.position];
+      if (!action) {
+        return undefined;
+      }
+      replay.position++;
+      store.applyPatches(action.patches, {
+        name: action.name ?? undefined,
+        payload: action.payload,
+      });
+      return action;
+    },
+    run() {
+      while (replay.step()) {}
+    },
+  };
+  return replay;
+}
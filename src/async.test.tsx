@@ -0,0 +1,166 @@
+import {createStore, useAuger, Rejected} from '.';
+import type {Async} from '.';
+import {render, act, screen} from '@testing-library/react';
+import * as React from 'react';
+
+type User = {name: string};
+type TestState = {
+  user: Async<User>;
+  counter: number;
+};
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return {promise, resolve, reject};
+}
+
+class ErrorBoundary extends React.Component<{}, {error: unknown}> {
+  state = {error: null};
+  static getDerivedStateFromError(error: unknown) {
+    return {error};
+  }
+  render() {
+    return this.state.error ? String(this.state.error) : this.props.children;
+  }
+}
+
+describe('async values', () => {
+  it('writes the resolved value back to the store', async () => {
+    const {promise, resolve} = deferred<User>();
+    const store = createStore<TestState>({user: promise, counter: 0});
+    const userCB = jest.fn();
+    const counterCB = jest.fn();
+    store.subscribe(['user'], userCB);
+    store.subscribe(['counter'], counterCB);
+
+    expect(store.auger().user.$status()).toEqual({status: 'pending'});
+
+    await act(async () => {
+      resolve({name: 'Sawyer'});
+      await promise;
+    });
+
+    expect(store.getState().user).toEqual({name: 'Sawyer'});
+    expect(store.auger().user.$status()).toEqual({
+      status: 'fulfilled',
+      value: {name: 'Sawyer'},
+    });
+    expect(userCB).toBeCalledTimes(1);
+    expect(counterCB).not.toBeCalled();
+  });
+
+  it('writes a Rejected back to the store when the promise rejects', async () => {
+    const {promise, reject} = deferred<User>();
+    const store = createStore<TestState>({user: {name: 'a'}, counter: 0});
+    store.update((draft) => {
+      draft.user = promise;
+    });
+
+    await act(async () => {
+      reject('oops');
+      await promise.catch(() => {});
+    });
+
+    expect(store.getState().user).toEqual(new Rejected('oops'));
+    expect(store.auger().user.$status()).toEqual({
+      status: 'rejected',
+      error: 'oops',
+    });
+  });
+
+  it('treats the promise as rejected when the write back fails', async () => {
+    const {promise, resolve} = deferred<User>();
+    const store = createStore<TestState>({user: promise, counter: 0});
+    store.addValidator(['user'], (user) =>
+      user.name ? undefined : 'must have a name',
+    );
+    const userCB = jest.fn();
+    store.subscribe(['user'], userCB);
+    expect(store.auger().user.$status()).toEqual({status: 'pending'});
+
+    await act(async () => {
+      resolve({name: ''});
+      await promise;
+    });
+
+    expect(store.getState().user).toBe(promise);
+    const status = store.auger().user.$status();
+    expect(status.status).toBe('rejected');
+    expect(status.status === 'rejected' && String(status.error)).toMatch(
+      /must have a name/,
+    );
+    expect(userCB).not.toBeCalled();
+  });
+
+  it("doesn't overwrite a promise that was replaced", async () => {
+    const {promise, resolve} = deferred<User>();
+    const store = createStore<TestState>({user: promise, counter: 0});
+    store.update((draft) => {
+      draft.user = {name: 'Hood'};
+    });
+
+    await act(async () => {
+      resolve({name: 'Sawyer'});
+      await promise;
+    });
+
+    expect(store.getState().user).toEqual({name: 'Hood'});
+  });
+
+  it('suspends until the promise resolves', async () => {
+    const {promise, resolve} = deferred<User>();
+    const store = createStore<TestState>({user: promise, counter: 0});
+    function User() {
+      const auger = useAuger(store);
+      const user = auger.user.$suspend();
+      return <div>{user.name}</div>;
+    }
+    const {baseElement} = render(
+      <React.Suspense fallback="loading">
+        <User />
+      </React.Suspense>,
+    );
+    expect(baseElement.textContent).toBe('loading');
+
+    resolve({name: 'Sawyer'});
+
+    expect(await screen.findByText('Sawyer')).toBeTruthy();
+  });
+
+  it('throws the error to an error boundary when the promise rejects', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const {promise, reject} = deferred<User>();
+    const store = createStore<TestState>({user: promise, counter: 0});
+    function User() {
+      const auger = useAuger(store);
+      const user = auger.user.$suspend();
+      return <div>{user.name}</div>;
+    }
+    const {baseElement} = render(
+      <ErrorBoundary>
+        <React.Suspense fallback="loading">
+          <User />
+        </React.Suspense>
+      </ErrorBoundary>,
+    );
+
+    await act(async () => {
+      reject('oops');
+      await promise.catch(() => {});
+    });
+
+    expect(baseElement.textContent).toBe('oops');
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it('returns settled values without suspending', () => {
+    const store = createStore<TestState>({user: {name: 'Sawyer'}, counter: 0});
+    const name: string = store.auger().user.$suspend().name;
+    expect(name).toBe('Sawyer');
+  });
+});
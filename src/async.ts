@@ -0,0 +1,91 @@
+import {getIn, setIn} from './path';
+import type {SubKey} from './path';
+import type {UntypedStore} from './store';
+
+// When a promise in the state rejects it is replaced with a Rejected that
+// holds the error.
+export class Rejected {
+  constructor(readonly error: unknown) {}
+}
+
+// A node in the state that holds data that is loaded asynchronously. It
+// starts out as a promise and is replaced with the resolved value (or a
+// Rejected) once the promise settles.
+export type Async<T> = T | PromiseLike<T> | Rejected;
+
+export type AsyncStatus<T> =
+  | {status: 'pending'}
+  | {status: 'fulfilled'; value: T}
+  | {status: 'rejected'; error: unknown};
+
+// The status of every promise that we are waiting on or that has settled.
+const promiseStatuses: WeakMap<
+  PromiseLike<unknown>,
+  AsyncStatus<unknown>
+> = new WeakMap();
+
+export function isThenable(value: unknown): value is PromiseLike<unknown> {
+  return (
+    value != null &&
+    (typeof value === 'object' || typeof value === 'function') &&
+    typeof (value as any).then === 'function'
+  );
+}
+
+// Returns the status of a promise at a path in the store. The first time we
+// see a promise we wait for it to settle and write the result back to the
+// store at that path, which notifies only the subscribers of that path.
+export function trackPromise(
+  store: UntypedStore,
+  path: SubKey[],
+  promise: PromiseLike<unknown>,
+): AsyncStatus<unknown> {
+  const existing = promiseStatuses.get(promise);
+  if (existing) {
+    return existing;
+  }
+
+  const status: AsyncStatus<unknown> = {status: 'pending'};
+  promiseStatuses.set(promise, status);
+  const settle = (next: AsyncStatus<unknown>, value: unknown) => {
+    promiseStatuses.set(promise, next);
+    // Only write back if the promise wasn't replaced while it was pending.
+    if (getIn(store.getState(), path) !== promise) {
+      return;
+    }
+    try {
+      store.update((draft) => {
+        if (path.length === 0) {
+          return value as any;
+        }
+        setIn(draft, path, value);
+        return undefined;
+      });
+    } catch (error) {
+      // The write back was rejected (ex by a validator). The promise stays in
+      // the state and is treated as rejected with the error, so a component
+      // suspended on it throws the error to its error boundary.
+      promiseStatuses.set(promise, {status: 'rejected', error});
+    }
+  };
+  promise.then(
+    (value) => settle({status: 'fulfilled', value}, value),
+    (error) => settle({status: 'rejected', error}, new Rejected(error)),
+  );
+  return status;
+}
+
+// Returns the status of any value in the state, values that aren't promises
+// are treated as fulfilled.
+export function getAsyncStatus(
+  store: UntypedStore,
+  path: SubKey[],
+  value: unknown,
+): AsyncStatus<unknown> {
+  if (isThenable(value)) {
+    return trackPromise(store, path, value);
+  } else if (value instanceof Rejected) {
+    return {status: 'rejected', error: value.error};
+  }
+  return {status: 'fulfilled', value};
+}
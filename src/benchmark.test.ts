@@ -0,0 +1,108 @@
+import {createStore} from '.';
+
+// These tests make sure that notifying subscribers scales with the number of
+// subscriptions instead of with the number of patches times the number of
+// subscriptions along each patch's path.
+
+type Item = {id: number; count: number; tags: {name: string}};
+type TestState = {items: Item[]};
+
+const ITEM_COUNT = 5000;
+
+function createBenchmarkStore() {
+  const items: Item[] = [];
+  for (let i = 0; i < ITEM_COUNT; i++) {
+    items.push({id: i, count: 0, tags: {name: `item ${i}`}});
+  }
+  const store = createStore<TestState>({items}, {scheduler: 'sync'});
+
+  const rootCB = jest.fn();
+  const itemsCB = jest.fn();
+  const itemCBs: jest.Mock[] = [];
+  store.subscribe([], rootCB);
+  store.subscribe(['items'], itemsCB);
+  for (let i = 0; i < ITEM_COUNT; i++) {
+    const itemCB = jest.fn();
+    itemCBs.push(itemCB);
+    store.subscribe(['items', String(i)], itemCB);
+    store.subscribe(['items', String(i), 'count'], itemCB);
+    store.subscribe(['items', String(i), 'tags', 'name'], itemCB);
+  }
+  return {store, rootCB, itemsCB, itemCBs};
+}
+
+describe('notification benchmark', () => {
+  it('calls each subscription once when an update touches every item', () => {
+    const {store, rootCB, itemsCB, itemCBs} = createBenchmarkStore();
+    expect(store.inspectSubscriptions().subscriberCount).toBe(
+      2 + ITEM_COUNT * 3,
+    );
+
+    const start = Date.now();
+    store.update((draft) => {
+      for (const item of draft.items) {
+        item.count++;
+      }
+    });
+    const duration = Date.now() - start;
+
+    // Calling every subscription along the path of each of the 5000 patches
+    // would call the root and items subscriptions 5000 times each.
+    expect(rootCB).toBeCalledTimes(1);
+    expect(itemsCB).toBeCalledTimes(1);
+    for (const itemCB of itemCBs) {
+      expect(itemCB).toBeCalledTimes(1);
+    }
+    // Generous enough to never be flaky, but catches quadratic blowups.
+    expect(duration).toBeLessThan(2000);
+  });
+
+  it("doesn't walk overlapping subtrees more than once", () => {
+    const {store, rootCB, itemCBs} = createBenchmarkStore();
+
+    store.update((draft) => {
+      // Replacing the array and then touching every item in it creates a
+      // patch for the array and overlapping patches inside of it.
+      draft.items = draft.items.slice();
+      for (const item of draft.items) {
+        item.tags = {name: item.tags.name};
+      }
+    });
+
+    expect(rootCB).toBeCalledTimes(1);
+    for (const itemCB of itemCBs) {
+      expect(itemCB).toBeCalledTimes(1);
+    }
+  });
+
+  it('calls each subscription once for a batch of updates', () => {
+    const {store, rootCB, itemsCB, itemCBs} = createBenchmarkStore();
+
+    store.batch(() => {
+      for (let i = 0; i < ITEM_COUNT; i += 100) {
+        store.update((draft) => {
+          draft.items[i].count++;
+        });
+      }
+    });
+
+    expect(rootCB).toBeCalledTimes(1);
+    expect(itemsCB).toBeCalledTimes(1);
+    for (let i = 0; i < ITEM_COUNT; i += 100) {
+      expect(itemCBs[i]).toBeCalledTimes(1);
+    }
+  });
+
+  it('only calls the subscriptions of the touched items', () => {
+    const {store, itemCBs} = createBenchmarkStore();
+
+    store.update((draft) => {
+      for (let i = 0; i < ITEM_COUNT; i += 100) {
+        draft.items[i].count++;
+      }
+    });
+
+    const called = itemCBs.filter((cb) => cb.mock.calls.length > 0);
+    expect(called.length).toBe(ITEM_COUNT / 100);
+  });
+});
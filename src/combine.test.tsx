@@ -0,0 +1,195 @@
+import {createStore, combineStores, useAuger} from '.';
+import {render, screen, act} from '@testing-library/react';
+import * as React from 'react';
+
+function createTestStores() {
+  const user = createStore({name: 'Sawyer', age: 26}, {scheduler: 'sync'});
+  const cart = createStore({items: ['apple']}, {scheduler: 'sync'});
+  return {user, cart, combined: combineStores({user, cart})};
+}
+
+describe('injectSlice', () => {
+  it('adds a slice and returns a store for it', () => {
+    const store = createStore<{[key: string]: unknown}>(
+      {counter: 0},
+      {scheduler: 'sync'},
+    );
+    const cb = jest.fn();
+    store.subscribe(['todos'], cb);
+    const todos = store.injectSlice('todos', {items: [] as string[]});
+    expect(cb).toBeCalledTimes(1);
+    todos.update((draft) => {
+      draft.items.push('Write tests');
+    });
+    expect(store.getState().todos).toEqual({items: ['Write tests']});
+    expect(todos.auger().items[0].$read()).toBe('Write tests');
+  });
+
+  it('keeps the state of a slice that was already added', () => {
+    const store = createStore<{[key: string]: unknown}>(
+      {},
+      {scheduler: 'sync'},
+    );
+    store.injectSlice('counter', {count: 0}).update((draft) => {
+      draft.count = 5;
+    });
+    const counter = store.injectSlice('counter', {count: 0});
+    expect(counter.getState()).toEqual({count: 5});
+  });
+
+  it('removes a slice', () => {
+    const store = createStore<{[key: string]: unknown}>(
+      {},
+      {scheduler: 'sync'},
+    );
+    store.injectSlice('counter', {count: 0});
+    const cb = jest.fn();
+    store.subscribe(['counter', 'count'], cb);
+    store.removeSlice('counter');
+    expect('counter' in store.getState()).toBe(false);
+    expect(cb).toBeCalledTimes(1);
+    store.removeSlice('counter');
+    expect(cb).toBeCalledTimes(1);
+  });
+});
+
+describe('combineStores', () => {
+  it('combines the state of every store', () => {
+    const {user, combined} = createTestStores();
+    const state = combined.getState();
+    expect(state).toEqual({
+      user: {name: 'Sawyer', age: 26},
+      cart: {items: ['apple']},
+    });
+    expect(combined.getState()).toBe(state);
+
+    user.update((draft) => {
+      draft.age++;
+    });
+    expect(combined.getState()).not.toBe(state);
+    expect(combined.getState().user.age).toBe(27);
+  });
+
+  it('only updates the stores that were changed', () => {
+    const {user, cart, combined} = createTestStores();
+    const onUser = jest.fn();
+    const onCart = jest.fn();
+    user.onCommit(onUser);
+    cart.onCommit(onCart);
+
+    combined.update((draft) => {
+      draft.cart.items.push('pear');
+    });
+    expect(cart.getState().items).toEqual(['apple', 'pear']);
+    expect(onCart).toBeCalledTimes(1);
+    expect(onUser).not.toBeCalled();
+  });
+
+  it('splits a replaced state between the stores', () => {
+    const {user, cart, combined} = createTestStores();
+    const onUser = jest.fn();
+    user.onCommit(onUser);
+    combined.update((state) => ({user: state.user, cart: {items: []}}));
+    expect(cart.getState().items).toEqual([]);
+    expect(onUser).not.toBeCalled();
+  });
+
+  it('rolls back every store when one of them rejects the update', () => {
+    const {user, cart, combined} = createTestStores();
+    cart.addValidator(['items'], (items: string[]) =>
+      items.length > 2 ? 'too many items' : undefined,
+    );
+    const onUser = jest.fn();
+    const onName = jest.fn();
+    user.onCommit(onUser);
+    user.subscribe(['name'], onName);
+
+    expect(() =>
+      combined.update((draft) => {
+        draft.user.name = 'Tiff';
+        draft.cart.items.push('pear', 'plum');
+      }),
+    ).toThrow(/too many items/);
+    expect(user.getState().name).toBe('Sawyer');
+    expect(cart.getState().items).toEqual(['apple']);
+    expect(onUser).not.toBeCalled();
+    expect(onName).not.toBeCalled();
+  });
+
+  it('drops the whole update when a middleware vetoes it', () => {
+    const user = createStore({name: 'Sawyer'}, {scheduler: 'sync'});
+    const cart = createStore(
+      {items: ['apple']},
+      {scheduler: 'sync', middleware: [() => {}]},
+    );
+    const combined = combineStores({user, cart});
+
+    combined.update((draft) => {
+      draft.user.name = 'Tiff';
+      draft.cart.items.push('pear');
+    });
+    expect(user.getState().name).toBe('Sawyer');
+    expect(cart.getState().items).toEqual(['apple']);
+  });
+
+  it('throws when adding a key without a store', () => {
+    const {combined} = createTestStores();
+    expect(() =>
+      combined.update((draft: any) => {
+        draft.other = 1;
+      }),
+    ).toThrow(/Can't add other/);
+  });
+
+  it('forwards subscriptions to the store of the path', () => {
+    const {user, cart, combined} = createTestStores();
+    const onName = jest.fn();
+    const onAny = jest.fn();
+    const onRoot = jest.fn();
+    combined.subscribe(['user', 'name'], onName);
+    combined.subscribe(['*'], onAny);
+    combined.subscribe([], onRoot);
+    expect(user.inspectSubscriptions().paths).toContainEqual({
+      path: ['name'],
+      subscribers: 1,
+    });
+
+    cart.update((draft) => {
+      draft.items = [];
+    });
+    expect(onName).not.toBeCalled();
+    expect(onAny).toBeCalledWith(['cart']);
+    expect(onRoot).toBeCalledTimes(1);
+
+    user.update((draft) => {
+      draft.name = 'Tiff';
+    });
+    expect(onName).toBeCalledWith(['user', 'name']);
+  });
+
+  it('renders with useAuger', () => {
+    const {user, cart, combined} = createTestStores();
+    let renders = 0;
+    function Name() {
+      const auger = useAuger(combined);
+      renders++;
+      return <div>{auger.user.name.$read()}</div>;
+    }
+    render(<Name />);
+    expect(screen.getByText('Sawyer')).toBeTruthy();
+
+    act(() => {
+      cart.update((draft) => {
+        draft.items.push('pear');
+      });
+    });
+    expect(renders).toBe(1);
+
+    act(() => {
+      user.update((draft) => {
+        draft.name = 'Tiff';
+      });
+    });
+    expect(screen.getByText('Tiff')).toBeTruthy();
+  });
+});
@@ -0,0 +1,169 @@
+import {produceWithPatches} from 'immer';
+import type {Draft, Patch} from 'immer';
+import type {SubKey} from './path';
+import {createAuger} from './store';
+import type {
+  Auger,
+  AugerOptions,
+  AugerStore,
+  StoreLike,
+  UpdateOptions,
+} from './store';
+import {focusStore} from './focus';
+import type {FocusedStore} from './focus';
+
+type Stores = {[key: string]: AugerStore<any>};
+
+// Thrown to roll back a combined update when a store vetoes its patches.
+const VETOED = {};
+
+// The state of a CombinedStore, each key holds the state of its store.
+export type CombinedState<S extends Stores> = {
+  [K in keyof S]: S[K] extends AugerStore<infer T> ? T : never;
+};
+
+// Exposes several stores as a single tree with a key for each store, so
+// they can be used with a single useAuger. The stores stay separate: each
+// one keeps its own state, history and subscribers, and is only notified of
+// changes to its own state.
+export class CombinedStore<T> implements StoreLike<T> {
+  private state: T | null = null;
+
+  constructor(private stores: Stores) {}
+
+  // The combined state is only recreated when one of the stores changed, so
+  // the same state is returned until something changes.
+  getState(): Readonly<T> {
+    const {state, stores} = this;
+    const keys = Object.keys(stores);
+    if (
+      state &&
+      keys.every((key) => (state as any)[key] === stores[key].getState())
+    ) {
+      return state;
+    }
+    const next: any = {};
+    for (const key of keys) {
+      next[key] = stores[key].getState();
+    }
+    this.state = next;
+    return next;
+  }
+
+  // Subscribes to a path in the combined tree. The first key picks the
+  // store, a wildcard or an empty path subscribes to every store.
+  subscribe(path: SubKey[], sub: (path: SubKey[]) => void): () => void {
+    const [key, ...rest] = path;
+    let unsubs: (() => void)[];
+    if (path.length === 0) {
+      unsubs = this.keys().map((k) =>
+        this.stores[k].subscribe([], () => sub([])),
+      );
+    } else if (key === '*' || key === '**') {
+      unsubs = this.keys().map((k) =>
+        this.stores[k].subscribe(key === '*' ? rest : path, (p) =>
+          sub([k, ...p]),
+        ),
+      );
+    } else {
+      const store = this.stores[String(key)];
+      unsubs = store
+        ? [store.subscribe(rest, (p) => sub([String(key), ...p]))]
+        : [];
+    }
+    return () => unsubs.forEach((unsub) => unsub());
+  }
+
+  // Runs the updater on the combined state and applies the patches it
+  // made to each store that they touch. Either every store is updated or,
+  // if one of them rejects the update, none of them are.
+  update(fn: (draft: Draft<T>) => void | T, options: UpdateOptions = {}) {
+    const [, patches] = produceWithPatches(this.getState(), fn);
+    const byStore: Map<string, Patch[]> = new Map();
+    const add = (key: string, patch: Patch) => {
+      if (!(key in this.stores)) {
+        throw new Error(
+          `auger-state: Can't add ${key} to a combined store, only the keys of the stores it was created with can be updated.`,
+        );
+      }
+      const storePatches = byStore.get(key) ?? [];
+      storePatches.push(patch);
+      byStore.set(key, storePatches);
+    };
+
+    for (const patch of patches) {
+      const [key, ...rest] = patch.path;
+      if (patch.path.length) {
+        add(String(key), {...patch, path: rest});
+        continue;
+      }
+      // The whole state was replaced, only update the stores that changed
+      const value: any = patch.value;
+      for (const k of this.keys()) {
+        if (value?.[k] !== this.stores[k].getState()) {
+          add(k, {op: 'replace', path: [], value: value?.[k]});
+        }
+      }
+    }
+    // Each store applies its patches inside of a batch that wraps the
+    // batches of the stores after it. If a store rejects its patches the
+    // error rolls back every batch, so no store is left half updated and no
+    // subscriber is notified.
+    const entries = Array.from(byStore.entries());
+    const apply = (i: number) => {
+      if (i === entries.length) {
+        return;
+      }
+      const [key, storePatches] = entries[i];
+      const store = this.stores[key];
+      store.batch(() => {
+        const prevState = store.getState();
+        store.applyPatches(storePatches, options);
+        if (store.getState() === prevState) {
+          throw VETOED;
+        }
+        apply(i + 1);
+      });
+    };
+    try {
+      apply(0);
+    } catch (e) {
+      // A middleware vetoed the patches of one of the stores, which drops
+      // the whole update.
+      if (e !== VETOED) {
+        throw e;
+      }
+    }
+  }
+
+  auger(
+    onRead: (path: SubKey[]) => void = () => {},
+    options: AugerOptions = {},
+  ): Auger<T> {
+    return createAuger(this, [], {
+      onRead,
+      dev: false,
+      isRendering: options.isRendering,
+    });
+  }
+
+  focus<V = any>(path: SubKey[]): FocusedStore<V> {
+    return focusStore(this, path);
+  }
+
+  private keys(): string[] {
+    return Object.keys(this.stores);
+  }
+}
+
+// Combines separately created stores into one tree that can be passed to
+// useAuger. Ex:
+//
+// const store = combineStores({user: userStore, cart: cartStore});
+// const auger = useAuger(store);
+// auger.cart.items.$read();
+export function combineStores<S extends Stores>(
+  stores: S,
+): CombinedStore<CombinedState<S>> {
+  return new CombinedStore(stores);
+}
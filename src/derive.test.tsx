@@ -0,0 +1,163 @@
+import {createStore, useDerived} from '.';
+import {render, act} from '@testing-library/react';
+import * as React from 'react';
+
+type Todo = {name: string; isDone: boolean};
+type TestState = {
+  todos: Todo[];
+  filter: 'all' | 'done';
+  counter: number;
+};
+
+function createTestStore() {
+  const state: TestState = {
+    todos: [
+      {name: 'Buy Eggs', isDone: true},
+      {name: 'Wear a Mask', isDone: false},
+    ],
+    filter: 'all',
+    counter: 0,
+  };
+  return createStore(state);
+}
+
+describe('derive', () => {
+  it('computes a value from the state', () => {
+    const store = createTestStore();
+    const doneCount = store.derive(
+      (auger) => auger.todos.$read().filter((t) => t.isDone).length,
+    );
+
+    expect(doneCount.getState()).toBe(1);
+    store.update((draft) => {
+      draft.todos[1].isDone = true;
+    });
+    expect(doneCount.getState()).toBe(2);
+  });
+
+  it('caches the value until a path it read changes', () => {
+    const store = createTestStore();
+    const fn = jest.fn((auger) => auger.todos.$read().length);
+    const count = store.derive(fn);
+
+    count.getState();
+    store.update((draft) => {
+      draft.counter++;
+    });
+    count.getState();
+    expect(fn).toBeCalledTimes(1);
+
+    store.update((draft) => {
+      draft.todos.push({name: 'Walk the dog', isDone: false});
+    });
+    expect(count.getState()).toBe(3);
+    expect(fn).toBeCalledTimes(2);
+  });
+
+  it('only notifies subscribers when the value changes', () => {
+    const store = createTestStore();
+    const doneCount = store.derive(
+      (auger) => auger.todos.$read().filter((t) => t.isDone).length,
+    );
+    const cb = jest.fn();
+    doneCount.subscribe(cb);
+
+    store.update((draft) => {
+      draft.todos[0].name = 'Buy Milk';
+    });
+    expect(cb).not.toBeCalled();
+
+    store.update((draft) => {
+      draft.counter++;
+    });
+    expect(cb).not.toBeCalled();
+
+    store.update((draft) => {
+      draft.todos[1].isDone = true;
+    });
+    expect(cb).toBeCalledTimes(1);
+  });
+
+  it('tracks paths that are read conditionally', () => {
+    const store = createTestStore();
+    const visible = store.derive((auger) =>
+      auger.filter.$read() === 'all' ? auger.todos.$read().length : 0,
+    );
+    const cb = jest.fn();
+    visible.subscribe(cb);
+
+    store.update((draft) => {
+      draft.filter = 'done';
+    });
+    expect(visible.getState()).toBe(0);
+    expect(cb).toBeCalledTimes(1);
+
+    // todos are no longer read so this doesn't recompute the value
+    store.update((draft) => {
+      draft.todos.pop();
+    });
+    expect(cb).toBeCalledTimes(1);
+  });
+
+  it('uses a custom equality check', () => {
+    const store = createTestStore();
+    const names = store.derive(
+      (auger) => auger.todos.$read().map((t) => t.name),
+      {
+        equals: (a, b) => a.join() === b.join(),
+      },
+    );
+    const cb = jest.fn();
+    names.subscribe(cb);
+
+    store.update((draft) => {
+      draft.todos[0].isDone = false;
+    });
+    expect(cb).not.toBeCalled();
+  });
+
+  it('stops listening to the store without subscribers', () => {
+    const store = createTestStore();
+    const fn = jest.fn((auger) => auger.todos.$read().length);
+    const count = store.derive(fn);
+    const unsub = count.subscribe(() => {});
+    unsub();
+
+    store.update((draft) => {
+      draft.todos.pop();
+    });
+    expect(fn).toBeCalledTimes(1);
+  });
+});
+
+describe('useDerived', () => {
+  it('rerenders only when the derived value changes', () => {
+    const store = createTestStore();
+    const doneCount = store.derive(
+      (auger) => auger.todos.$read().filter((t) => t.isDone).length,
+    );
+    const onRender = jest.fn();
+    function Component() {
+      const count = useDerived(doneCount);
+      onRender();
+      return <div>{count}</div>;
+    }
+    const {baseElement} = render(<Component />);
+    expect(baseElement.textContent).toBe('1');
+
+    act(() => {
+      store.update((draft) => {
+        draft.todos[0].name = 'Buy Milk';
+      });
+    });
+    expect(onRender).toBeCalledTimes(1);
+
+    act(() => {
+      store.update((draft) => {
+        draft.todos[1].isDone = true;
+      });
+    });
+    expect(baseElement.textContent).toBe('2');
+    expect(onRender).toBeCalledTimes(2);
+  });
+});
@@ -0,0 +1,102 @@
+import {getIn} from './path';
+import type {SubKey} from './path';
+import type {Auger, AugerStore} from './store';
+
+export type DeriveOptions<V> = {
+  // Decides if a recomputed value is different from the previous one,
+  // defaults to Object.is.
+  equals?: (prev: V, next: V) => boolean;
+};
+
+// A path that was read while computing a derived value along with the value
+// that was read.
+type Read = {path: SubKey[]; value: unknown};
+
+// A Derived is a value computed from the state of a store. While computing
+// the value, every path read with `$read` is recorded. The value is cached
+// until one of those paths changes and subscribers are only notified when
+// the computed value is different from the last one.
+export class Derived<V, T = any> {
+  private value!: V;
+  private reads: Read[] | null = null;
+  private subs: Set<() => void> = new Set();
+  private unsubs: (() => void)[] = [];
+  private equals: (prev: V, next: V) => boolean;
+
+  constructor(
+    private store: AugerStore<T>,
+    private fn: (auger: Auger<T>) => V,
+    options: DeriveOptions<V> = {},
+  ) {
+    this.equals = options.equals ?? Object.is;
+  }
+
+  getState(): V {
+    if (!this.isFresh()) {
+      this.compute();
+    }
+    return this.value;
+  }
+
+  // Registers a callback that is triggered when the derived value changes.
+  // The store is only subscribed to while the Derived has subscribers.
+  subscribe(sub: () => void): () => void {
+    this.subs.add(sub);
+    if (this.subs.size === 1) {
+      this.getState();
+      this.subscribeToReads();
+    }
+    return () => {
+      this.subs.delete(sub);
+      if (this.subs.size === 0) {
+        this.unsubscribeFromReads();
+      }
+    };
+  }
+
+  // The cached value is still valid if none of the paths that were read
+  // changed since it was computed.
+  private isFresh(): boolean {
+    if (!this.reads) {
+      return false;
+    }
+    const state = this.store.getState();
+    return this.reads.every(({path, value}) => getIn(state, path) === value);
+  }
+
+  private compute() {
+    const reads: Read[] = [];
+    const state = this.store.getState();
+    this.value = this.fn(
+      this.store.auger((path) => {
+        reads.push({path, value: getIn(state, path)});
+      }),
+    );
+    this.reads = reads;
+  }
+
+  private onChange = () => {
+    if (this.isFresh()) {
+      return;
+    }
+    const prev = this.value;
+    this.compute();
+    // The paths read can change between computations so we subscribe again.
+    this.unsubscribeFromReads();
+    this.subscribeToReads();
+    if (!this.equals(prev, this.value)) {
+      this.subs.forEach((s) => s());
+    }
+  };
+
+  private subscribeToReads() {
+    for (const {path} of this.reads ?? []) {
+      this.unsubs.push(this.store.subscribe(path, this.onChange));
+    }
+  }
+
+  private unsubscribeFromReads() {
+    this.unsubs.forEach((unsub) => unsub());
+    this.unsubs = [];
+  }
+}
@@ -0,0 +1,105 @@
+import {createStore, useAuger} from '.';
+import {render} from '@testing-library/react';
+import * as React from 'react';
+
+type TestState = {
+  user: {name: string; tags: string[]};
+  map: Map<string, {food: string}>;
+  set: Set<string>;
+  copy?: {name: string; tags: string[]};
+  counter: number;
+};
+
+function createTestStore() {
+  const state: TestState = {
+    user: {name: 'Sawyer', tags: ['a']},
+    map: new Map([['sawyer', {food: 'taco'}]]),
+    set: new Set(['a']),
+    counter: 0,
+  };
+  return createStore(state, {dev: true, scheduler: 'sync'});
+}
+
+describe('dev', () => {
+  it('throws an error naming the path when a read value is mutated', () => {
+    const store = createTestStore();
+    const user = store.auger().user.$read();
+    expect(() => {
+      user.name = 'Tiff';
+    }).toThrow('Cannot mutate user.name outside of an update');
+    expect(() => {
+      user.tags.push('b');
+    }).toThrow('Cannot mutate user.tags.1');
+    expect(store.getState().user).toEqual({name: 'Sawyer', tags: ['a']});
+  });
+
+  it('guards maps and sets', () => {
+    const store = createTestStore();
+    const auger = store.auger();
+    expect(() => auger.map.$read().clear()).toThrow(
+      'Cannot mutate map outside',
+    );
+    expect(() => {
+      auger.map.$read().get('sawyer')!.food = 'pizza';
+    }).toThrow('Cannot mutate map.sawyer.food');
+    expect(() => auger.set.$read().add('b')).toThrow('Cannot mutate set');
+    expect(auger.set.$read().has('a')).toBe(true);
+    expect(auger.map.$read().size).toBe(1);
+  });
+
+  it("doesn't put read-only values in the state", () => {
+    const store = createTestStore();
+    const auger = store.auger();
+    store.update((draft) => {
+      draft.copy = auger.user.$read();
+    });
+    expect(store.getState().copy).toBe(store.getState().user);
+
+    auger.user.$update((user) => {
+      user.tags.push('b');
+    });
+    expect(store.getState().user.tags).toEqual(['a', 'b']);
+  });
+
+  it('warns when updating while rendering', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createTestStore();
+    function Component() {
+      const auger = useAuger(store);
+      if (auger.counter.$read() === 0) {
+        auger.counter.$update(() => 1);
+      }
+      return null;
+    }
+    render(<Component />);
+    expect(warn).toBeCalledWith(
+      expect.stringContaining('counter was updated while rendering'),
+    );
+    warn.mockRestore();
+  });
+
+  it('warns when reading outside of render', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = createTestStore();
+    function Component() {
+      const auger = useAuger(store);
+      React.useEffect(() => {
+        auger.user.name.$read();
+      });
+      return null;
+    }
+    render(<Component />);
+    expect(warn).toBeCalledWith(
+      expect.stringContaining('user.name was read from the Auger'),
+    );
+    warn.mockRestore();
+  });
+
+  it('leaves stores without the option alone', () => {
+    const store = createStore({user: {name: 'Sawyer'}});
+    const user = store.auger().user.$read();
+    expect(() => {
+      user.name = 'Tiff';
+    }).not.toThrow();
+  });
+});
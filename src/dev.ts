@@ -0,0 +1,171 @@
+import {isDraftable} from 'immer';
+import type {Patch} from 'immer';
+import {getIn, setIn} from './path';
+import type {SubKey} from './path';
+
+// The read-only views of the values in the state along with the values
+// they wrap, used by stores created with the `dev` option.
+const readOnlyViews: WeakMap<object, object> = new WeakMap();
+const readOnlyTargets: WeakMap<object, object> = new WeakMap();
+
+const MUTATING_METHODS: Set<SubKey> = new Set([
+  'set',
+  'add',
+  'delete',
+  'clear',
+]);
+
+function formatPath(path: SubKey[]): string {
+  return path.length ? path.map(String).join('.') : 'the root of the state';
+}
+
+function throwMutation(path: SubKey[]): never {
+  throw new Error(
+    `auger-state: Cannot mutate ${formatPath(path)} outside of an update. ` +
+      'Values read from the store are read-only, use $update or ' +
+      'store.update to change them.',
+  );
+}
+
+// Returns a view of a value from the state that throws an error naming the
+// path when anything tries to mutate it. Values that are already frozen or
+// that immer can't draft (ex promises) are returned as is.
+export function readOnly<V>(value: V, path: SubKey[]): V {
+  if (
+    value == null ||
+    typeof value !== 'object' ||
+    !isDraftable(value) ||
+    Object.isFrozen(value)
+  ) {
+    return value;
+  }
+  const existing = readOnlyViews.get(value as any);
+  if (existing) {
+    return existing as any;
+  }
+
+  const view = new Proxy(value as any, {
+    get(target, key, receiver) {
+      if (target instanceof Map || target instanceof Set) {
+        const member = Reflect.get(target, key, target);
+        if (typeof member !== 'function') {
+          return member;
+        } else if (MUTATING_METHODS.has(key)) {
+          return () => throwMutation(path);
+        } else if (key === 'get' && target instanceof Map) {
+          return (k: SubKey) => readOnly(target.get(k), [...path, k]);
+        }
+        return member.bind(target);
+      }
+      const child = Reflect.get(target, key, receiver);
+      return typeof key === 'symbol' ? child : readOnly(child, [...path, key]);
+    },
+    set(_, key) {
+      return throwMutation([...path, key]);
+    },
+    deleteProperty(_, key) {
+      return throwMutation([...path, key]);
+    },
+    defineProperty(_, key) {
+      return throwMutation([...path, key]);
+    },
+  });
+  readOnlyViews.set(value as any, view);
+  readOnlyTargets.set(view, value as any);
+  return view;
+}
+
+// Replaces the read-only views in a value with the values they wrap. Only
+// values that were just created by an update are changed, since the state
+// never holds read-only views.
+function unwrap(value: unknown): unknown {
+  if (value == null || typeof value !== 'object') {
+    return value;
+  }
+  const target = readOnlyTargets.get(value as object);
+  if (target) {
+    return target;
+  } else if (!isDraftable(value) || Object.isFrozen(value)) {
+    return value;
+  }
+  if (value instanceof Map) {
+    value.forEach((child, key) => {
+      const next = unwrap(child);
+      if (next !== child) {
+        value.set(key, next);
+      }
+    });
+  } else if (value instanceof Set) {
+    Array.from(value).forEach((child) => {
+      const next = unwrap(child);
+      if (next !== child) {
+        value.delete(child);
+        value.add(next);
+      }
+    });
+  } else {
+    const object = value as any;
+    Object.keys(object).forEach((key) => {
+      const next = unwrap(object[key]);
+      if (next !== object[key]) {
+        object[key] = next;
+      }
+    });
+  }
+  return value;
+}
+
+// Read-only views can end up in an update, ex `draft.copy = auger.x.$read()`.
+// This swaps them for the values they wrap so the state only holds plain
+// values. The objects along the patched paths were created by the update so
+// they can still be changed.
+export function removeReadOnlyViews<T>(state: T, patches: Patch[]): T {
+  for (const patch of patches) {
+    if (patch.op === 'remove') {
+      continue;
+    }
+    const view = patch.value;
+    const value = unwrap(view);
+    if (value === view) {
+      continue;
+    }
+    patch.value = value;
+    const parent = getIn(state, patch.path.slice(0, -1));
+    if (patch.path.length === 0) {
+      state = value as T;
+    } else if (parent instanceof Set) {
+      // The paths of values in a Set are indexes
+      parent.delete(view);
+      parent.add(value);
+    } else {
+      setIn(state, patch.path, value);
+    }
+  }
+  return state;
+}
+
+const warnings: Set<string> = new Set();
+
+// Logs a warning the first time it is seen.
+export function warnOnce(message: string) {
+  if (!warnings.has(message)) {
+    warnings.add(message);
+    console.warn(`auger-state: ${message}`);
+  }
+}
+
+export function warnReadOutsideRender(path: SubKey[]) {
+  warnOnce(
+    `${formatPath(path)} was read from the Auger returned by useAuger ` +
+      "outside of the component's render. The component isn't rerendered " +
+      'when it changes, use store.getState() in effects and event handlers.',
+  );
+}
+
+export function warnUpdateDuringRender(path: SubKey[]) {
+  warnOnce(
+    `${formatPath(path)} was updated while rendering. Updates should be ` +
+      'made in effects or event handlers, since a render might never be ' +
+      'committed.',
+  );
+}
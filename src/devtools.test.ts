@@ -0,0 +1,182 @@
+import {createStore, connectDevTools} from '.';
+import type {DevToolsMessage} from './devtools';
+
+type TestState = {
+  counter: {value: number};
+  user: {name: string};
+};
+
+function createFakeExtension() {
+  let listener: (message: DevToolsMessage) => void = () => {};
+  const connection = {
+    init: jest.fn(),
+    send: jest.fn(),
+    subscribe: jest.fn((l: (message: DevToolsMessage) => void) => {
+      listener = l;
+      return () => {
+        listener = () => {};
+      };
+    }),
+  };
+  return {
+    connection,
+    extension: {connect: jest.fn(() => connection)},
+    dispatch(payload: any, state?: unknown) {
+      listener({
+        type: 'DISPATCH',
+        payload,
+        state: state === undefined ? undefined : JSON.stringify(state),
+      });
+    },
+  };
+}
+
+function createTestStore() {
+  const state: TestState = {counter: {value: 1}, user: {name: 'Sawyer'}};
+  return createStore(state);
+}
+
+describe('connectDevTools', () => {
+  it('reports updates with their patches', () => {
+    const store = createTestStore();
+    const {extension, connection} = createFakeExtension();
+    connectDevTools(store, {extension, name: 'test'});
+
+    expect(extension.connect).toBeCalledWith({name: 'test'});
+    expect(connection.init).toBeCalledWith(store.getState());
+
+    store.update((draft) => {
+      draft.counter.value = 2;
+    });
+
+    expect(connection.send).toBeCalledWith(
+      {
+        type: 'update',
+        patches: [{op: 'replace', path: ['counter', 'value'], value: 2}],
+      },
+      store.getState(),
+    );
+  });
+
+  it('reports named updates with their name and payload', () => {
+    const store = createTestStore();
+    const {extension, connection} = createFakeExtension();
+    connectDevTools(store, {extension});
+
+    store.update(
+      (draft) => {
+        draft.counter.value += 3;
+      },
+      {name: 'counter/add', payload: 3},
+    );
+
+    expect(connection.send).toBeCalledWith(
+      {
+        type: 'counter/add',
+        payload: 3,
+        patches: [{op: 'replace', path: ['counter', 'value'], value: 4}],
+      },
+      store.getState(),
+    );
+  });
+
+  it('jumps to a state and only notifies the changed paths', () => {
+    const store = createTestStore();
+    const {extension, connection, dispatch} = createFakeExtension();
+    connectDevTools(store, {extension});
+    const counterCB = jest.fn();
+    const userCB = jest.fn();
+    store.subscribe(['counter', 'value'], counterCB);
+    store.subscribe(['user', 'name'], userCB);
+
+    dispatch(
+      {type: 'JUMP_TO_STATE'},
+      {counter: {value: 5}, user: {name: 'Sawyer'}},
+    );
+
+    expect(store.getState().counter.value).toBe(5);
+    expect(counterCB).toBeCalledTimes(1);
+    expect(userCB).not.toBeCalled();
+    // Time traveling isn't reported back to the devtools
+    expect(connection.send).not.toBeCalled();
+  });
+
+  it('imports a lifted state', () => {
+    const store = createTestStore();
+    const {extension, connection, dispatch} = createFakeExtension();
+    connectDevTools(store, {extension});
+    const nextLiftedState = {
+      computedStates: [
+        {state: {counter: {value: 1}, user: {name: 'Sawyer'}}},
+        {state: {counter: {value: 3}, user: {name: 'Hood'}}},
+      ],
+    };
+
+    dispatch({type: 'IMPORT_STATE', nextLiftedState});
+
+    expect(store.getState()).toEqual({
+      counter: {value: 3},
+      user: {name: 'Hood'},
+    });
+    expect(connection.send).toBeCalledWith(null, nextLiftedState);
+  });
+
+  it('keeps Maps and Sets when time traveling', () => {
+    const store = createStore({
+      users: new Map([['a', {name: 'Sawyer'}]]),
+      tags: new Set(['new']),
+    });
+    const {extension, connection, dispatch} = createFakeExtension();
+    connectDevTools(store, {extension});
+    const initial = connection.init.mock.calls[0][0];
+    expect(initial).toEqual({
+      users: {__augerType: 'Map', entries: [['a', {name: 'Sawyer'}]]},
+      tags: {__augerType: 'Set', values: ['new']},
+    });
+
+    store.update((draft) => {
+      draft.users.set('b', {name: 'Tiff'});
+    });
+    const [action, sent] = connection.send.mock.calls[0];
+    expect(action.patches[0].value).toEqual({name: 'Tiff'});
+    expect(sent.users.entries).toHaveLength(2);
+
+    dispatch({type: 'JUMP_TO_STATE'}, initial);
+    expect(store.getState().users).toBeInstanceOf(Map);
+    expect(store.getState().users.get('a')).toEqual({name: 'Sawyer'});
+    expect(store.getState().users.has('b')).toBe(false);
+    expect(store.getState().tags).toEqual(new Set(['new']));
+
+    dispatch({
+      type: 'IMPORT_STATE',
+      nextLiftedState: {computedStates: [{state: sent}]},
+    });
+    expect(store.getState().users.get('b')).toEqual({name: 'Tiff'});
+  });
+
+  it('reinitializes the devtools on commit', () => {
+    const store = createTestStore();
+    const {extension, connection, dispatch} = createFakeExtension();
+    connectDevTools(store, {extension});
+    store.update((draft) => {
+      draft.user.name = 'Hood';
+    });
+
+    dispatch({type: 'COMMIT'});
+
+    expect(connection.init).toHaveBeenLastCalledWith(store.getState());
+  });
+
+  it('stops reporting once disconnected', () => {
+    const store = createTestStore();
+    const {extension, connection} = createFakeExtension();
+    const disconnect = connectDevTools(store, {extension});
+    disconnect();
+
+    store.update((draft) => {
+      draft.counter.value++;
+    });
+
+    expect(connection.send).not.toBeCalled();
+  });
+});
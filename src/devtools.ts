@@ -0,0 +1,125 @@
+import type {AugerStore} from './store';
+import {serialize, deserialize} from './serialize';
+
+// The subset of the Redux DevTools extension api that auger-state uses.
+// See https://github.com/reduxjs/redux-devtools/blob/main/extension/docs/API/Methods.md
+export type DevToolsConnection = {
+  init(state: unknown): void;
+  send(action: unknown, state: unknown): void;
+  subscribe(listener: (message: DevToolsMessage) => void): (() => void) | void;
+};
+
+export type DevToolsExtension = {
+  connect(options?: {name?: string}): DevToolsConnection;
+};
+
+export type DevToolsMessage = {
+  type: string;
+  state?: string;
+  payload?: any;
+};
+
+export type DevToolsOptions = {
+  // The name of the instance shown in the devtools.
+  name?: string;
+  // The extension to connect to, defaults to the one injected on `window`.
+  extension?: DevToolsExtension;
+};
+
+// Connects a store to the Redux DevTools extension. Every update to the store
+// is reported to the devtools along with the patches that immer produced for
+// it. Time traveling in the devtools replaces the state of the store. Returns
+// a function that disconnects the store from the devtools.
+export function connectDevTools<T>(
+  store: AugerStore<T>,
+  options: DevToolsOptions = {},
+): () => void {
+  const extension: DevToolsExtension | undefined =
+    options.extension ??
+    (typeof window !== 'undefined'
+      ? (window as any).__REDUX_DEVTOOLS_EXTENSION__
+      : undefined);
+  if (!extension) {
+    return () => {};
+  }
+
+  const connection = extension.connect({name: options.name ?? 'auger-state'});
+  connection.init(toDevTools(store.getState()));
+
+  // Set while we are replacing the state because of a message from the
+  // devtools, so that we don't report the devtools' own changes back to it.
+  let isTimeTraveling = false;
+  const setState = (state: T) => {
+    isTimeTraveling = true;
+    try {
+      store.setState(state);
+    } finally {
+      isTimeTraveling = false;
+    }
+  };
+
+  // Named updates are shown with their name and payload.
+  const unsubCommit = store.onCommit(({state, patches, action}) => {
+    if (!isTimeTraveling) {
+      connection.send(
+        toDevTools(
+          action
+            ? {type: action.name, payload: action.payload, patches}
+            : {type: 'update', patches},
+        ),
+        toDevTools(state),
+      );
+    }
+  });
+
+  const unsubMessages = connection.subscribe((message) => {
+    if (message.type !== 'DISPATCH' || !message.payload) {
+      return;
+    }
+    switch (message.payload.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        if (message.state != null) {
+          setState(deserialize(message.state));
+        }
+        break;
+      case 'ROLLBACK':
+        if (message.state != null) {
+          setState(deserialize(message.state));
+          connection.init(toDevTools(store.getState()));
+        }
+        break;
+      case 'COMMIT':
+        connection.init(toDevTools(store.getState()));
+        break;
+      case 'IMPORT_STATE': {
+        const {nextLiftedState} = message.payload;
+        const computedStates = nextLiftedState?.computedStates ?? [];
+        const last = computedStates[computedStates.length - 1];
+        if (last) {
+          setState(fromDevTools(last.state));
+        }
+        connection.send(null, nextLiftedState);
+        break;
+      }
+    }
+  });
+
+  return () => {
+    unsubCommit();
+    if (typeof unsubMessages === 'function') {
+      unsubMessages();
+    }
+  };
+}
+
+// The devtools send everything through JSON, which turns Maps and Sets into
+// empty objects. Values are converted with `serialize` before they are sent
+// so Maps and Sets survive the trip and are restored when time traveling.
+function toDevTools(value: unknown): unknown {
+  return value === undefined ? value : JSON.parse(serialize(value));
+}
+
+function fromDevTools<T>(value: unknown): T {
+  return deserialize<T>(JSON.stringify(value));
+}
@@ -0,0 +1,167 @@
+import {createStore, useAuger} from '.';
+import type {FocusedStore} from '.';
+import {render, screen, act} from '@testing-library/react';
+import * as React from 'react';
+
+type User = {name: string; age: number};
+type TestState = {
+  users: {[id: string]: User};
+  byId: Map<number, User>;
+  list: User[];
+  counter: number;
+};
+
+function createTestStore() {
+  const state: TestState = {
+    users: {a: {name: 'Sawyer', age: 26}},
+    byId: new Map([[1, {name: 'Tiff', age: 27}]]),
+    list: [{name: 'Lily', age: 3}],
+    counter: 0,
+  };
+  return createStore(state, {scheduler: 'sync'});
+}
+
+describe('focus', () => {
+  it('reads and updates a subtree', () => {
+    const store = createTestStore();
+    const user = store.auger().users.a.$focus();
+    expect(user.getState()).toEqual({name: 'Sawyer', age: 26});
+
+    user.update((draft) => {
+      draft.age++;
+    });
+    expect(store.getState().users.a.age).toBe(27);
+
+    user.update(() => ({name: 'Lily', age: 3}));
+    expect(store.getState().users.a).toEqual({name: 'Lily', age: 3});
+  });
+
+  it('subscribes under the path of the subtree', () => {
+    const store = createTestStore();
+    const user = store.focus<User>(['users', 'a']);
+    const cb = jest.fn();
+    user.subscribe(['name'], cb);
+    expect(store.inspectSubscriptions().paths).toEqual([
+      {path: ['users', 'a', 'name'], subscribers: 1},
+    ]);
+
+    store.update((draft) => {
+      draft.users.a.name = 'Tiff';
+      draft.counter++;
+    });
+    expect(cb).toBeCalledTimes(1);
+    expect(cb).toBeCalledWith(['name']);
+  });
+
+  it('focuses on values in a map', () => {
+    const store = createTestStore();
+    const user = store.auger().byId.get(1).$focus();
+    expect(user.auger().name.$read()).toBe('Tiff');
+    user.auger().age.$update((age) => age! + 1);
+    expect(store.getState().byId.get(1)!.age).toBe(28);
+  });
+
+  it('subscribes to values in a map with number keys', () => {
+    const store = createTestStore();
+    const user = store.auger().byId.get(1).$focus();
+    const cb = jest.fn();
+    user.subscribe(['name'], cb);
+
+    store.update((draft) => {
+      draft.byId.get(1)!.name = 'Lily';
+    });
+    expect(cb).toBeCalledTimes(1);
+  });
+
+  it('subscribes to array items focused with a number index', () => {
+    const store = createTestStore();
+    const user = store.focus<User>(['list', 0]);
+    const cb = jest.fn();
+    user.subscribe(['name'], cb);
+
+    store.update((draft) => {
+      draft.list[0].name = 'Tiff';
+    });
+    expect(cb).toBeCalledTimes(1);
+    expect(user.getState().name).toBe('Tiff');
+  });
+
+  it('notifies a focused store after the state is replaced', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.focus(['byId', 1]).subscribe(['age'], cb);
+
+    store.setState({
+      ...store.getState(),
+      byId: new Map([[1, {name: 'Tiff', age: 28}]]),
+    });
+    expect(cb).toBeCalledTimes(1);
+  });
+
+  it('focuses a focused store', () => {
+    const store = createTestStore();
+    const name = store.focus(['users']).focus<string>(['a', 'name']);
+    expect(name.getState()).toBe('Sawyer');
+  });
+
+  it('returns the same store for the same path', () => {
+    const store = createTestStore();
+    const user = store.focus(['users', 'a']);
+    expect(store.auger().users.a.$focus()).toBe(user);
+    expect(store.focus(['users']).focus(['a'])).toBe(user);
+    expect(store.focus(['users', 'b'])).not.toBe(user);
+  });
+
+  it("doesn't rerender a memoized component on unrelated updates", () => {
+    const store = createTestStore();
+    const onRender = jest.fn();
+    const UserCard = React.memo(({user}: {user: FocusedStore<User>}) => {
+      const auger = useAuger(user);
+      onRender();
+      return <div>{auger.name.$read()}</div>;
+    });
+    function Parent() {
+      const auger = useAuger(store);
+      return (
+        <div>
+          {auger.counter.$read()}
+          <UserCard user={auger.users.a.$focus()} />
+        </div>
+      );
+    }
+    render(<Parent />);
+
+    act(() => {
+      store.update((draft) => {
+        draft.counter++;
+      });
+    });
+    expect(onRender).toBeCalledTimes(1);
+  });
+
+  it('can be passed to useAuger', () => {
+    const store = createTestStore();
+    const onRender = jest.fn();
+    function UserCard({user}: {user: FocusedStore<User>}) {
+      const auger = useAuger(user);
+      onRender();
+      return <div data-testid="name">{auger.name.$read()}</div>;
+    }
+    render(<UserCard user={store.auger().users.a.$focus()} />);
+
+    act(() => {
+      store.update((draft) => {
+        draft.users.a.age++;
+      });
+    });
+    expect(onRender).toBeCalledTimes(1);
+
+    act(() => {
+      store.update((draft) => {
+        draft.users.a.name = 'Tiff';
+      });
+    });
+    expect(screen.getByTestId('name').textContent).toBe('Tiff');
+    expect(onRender).toBeCalledTimes(2);
+  });
+});
@@ -0,0 +1,99 @@
+import type {Draft} from 'immer';
+import {getIn, pathKey, setIn} from './path';
+import type {SubKey} from './path';
+import type {
+  Auger,
+  AugerOptions,
+  StoreLike,
+  UntypedStore,
+  UpdateOptions,
+} from './store';
+
+// A store for a subtree of another store, created with `store.focus` or an
+// Auger's `$focus`. It holds no state of its own, every read, update and
+// subscription is forwarded to the parent store under its path. This lets a
+// reusable component take the part of the state it works on without knowing
+// the shape of the rest of the state. Ex:
+//
+// const UserCard = ({user}: {user: FocusedStore<User>}) => {
+//   const auger = useAuger(user);
+//   return <div>{auger.name.$read()}</div>;
+// };
+//
+// <UserCard user={auger.users.get(id).$focus()} />
+export class FocusedStore<T> implements StoreLike<T> {
+  constructor(private store: UntypedStore, private path: SubKey[]) {}
+
+  getState(): Readonly<T> {
+    return getIn(this.store.getState(), this.path);
+  }
+
+  // Subscribes to a path relative to the focused subtree. The callback is
+  // called with the path relative to the subtree as well.
+  subscribe(path: SubKey[], sub: (path: SubKey[]) => void): () => void {
+    const {length} = this.path;
+    return this.store.subscribe([...this.path, ...path], (p) =>
+      sub(p.slice(length)),
+    );
+  }
+
+  update(fn: (draft: Draft<T>) => void | T, options?: UpdateOptions) {
+    const {path} = this;
+    this.store.update((draft) => {
+      const result = fn(getIn(draft, path));
+      if (result === undefined) {
+        return undefined;
+      } else if (path.length === 0) {
+        return result;
+      }
+      setIn(draft, path, result);
+      return undefined;
+    }, options);
+  }
+
+  // Creates an Auger for the subtree. The paths passed to `onRead` are
+  // relative to the subtree, so they can be passed back to `subscribe`.
+  auger(
+    onRead: (path: SubKey[]) => void = () => {},
+    options?: AugerOptions,
+  ): Auger<T> {
+    const {length} = this.path;
+    // `get` works for every key, not only the ones that are strings
+    let auger: any = this.store.auger((p) => onRead(p.slice(length)), options);
+    for (const key of this.path) {
+      auger = auger.get(key);
+    }
+    return auger;
+  }
+
+  focus<V = any>(path: SubKey[]): FocusedStore<V> {
+    return focusStore(this.store, [...this.path, ...path]);
+  }
+}
+
+// The FocusedStores created for each store, keyed by pathKey.
+const focusedStores: WeakMap<
+  UntypedStore,
+  Map<string, FocusedStore<any>>
+> = new WeakMap();
+
+// Returns the FocusedStore for a path in a store. The same path always
+// returns the same FocusedStore, so one created during a render can be
+// passed to a component wrapped in React.memo without rerendering it.
+export function focusStore<V>(
+  store: UntypedStore,
+  path: SubKey[],
+): FocusedStore<V> {
+  let cache = focusedStores.get(store);
+  if (!cache) {
+    cache = new Map();
+    focusedStores.set(store, cache);
+  }
+  const key = pathKey(path);
+  let focused = cache.get(key);
+  if (!focused) {
+    focused = new FocusedStore(store, path);
+    cache.set(key, focused);
+  }
+  return focused;
+}
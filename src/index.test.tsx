@@ -1,5 +1,6 @@
 import {createStore, useAuger} from '.';
-import {render, fireEvent, screen} from '@testing-library/react';
+import type {StoreOptions} from '.';
+import {render, fireEvent, screen, act} from '@testing-library/react';
 import * as React from 'react';
 
 type TestState = {
@@ -9,14 +10,14 @@ type TestState = {
   map: Map<string, {food: string}>;
 };
 
-function createTestStore() {
+function createTestStore(options?: StoreOptions<TestState>) {
   const state: TestState = {
     counter: {value: 1},
     items: [{id: 1, name: 'hello'}],
     users: {['a']: {name: 'Sawyer', age: 26}},
     map: new Map([['sawyer', {food: 'taco'}]]),
   };
-  return createStore(state);
+  return createStore(state, options);
 }
 
 type NullableTestState = {
@@ -103,6 +104,617 @@ describe('AugerStore', () => {
   });
 });
 
+describe('batch', () => {
+  it('notifies each subscriber once after the batch', () => {
+    const store = createTestStore();
+    const counterCB = jest.fn();
+    const nameCB = jest.fn();
+    const mapCB = jest.fn();
+    store.subscribe(['counter'], counterCB);
+    store.subscribe(['users', 'a', 'name'], nameCB);
+    store.subscribe(['map'], mapCB);
+
+    store.batch(() => {
+      for (let i = 0; i < 5; i++) {
+        store.update((draft) => {
+          draft.counter.value++;
+        });
+      }
+      store.update((draft) => {
+        draft.users['a'].name = 'Hood';
+      });
+      // Updates are visible inside of the batch
+      expect(store.getState().counter.value).toBe(6);
+      expect(counterCB).not.toBeCalled();
+    });
+
+    expect(counterCB).toBeCalledTimes(1);
+    expect(nameCB).toBeCalledTimes(1);
+    expect(mapCB).not.toBeCalled();
+  });
+
+  it('commits nested batches with the outer batch', () => {
+    const store = createTestStore();
+    const listener = jest.fn();
+    store.onCommit(listener);
+
+    store.batch(() => {
+      store.update((draft) => {
+        draft.counter.value = 2;
+      });
+      store.batch(() => {
+        store.update((draft) => {
+          draft.users['a'].age = 30;
+        });
+      });
+      expect(listener).not.toBeCalled();
+    });
+
+    expect(listener).toBeCalledTimes(1);
+    expect(listener.mock.calls[0][0].patches).toEqual([
+      {op: 'replace', path: ['counter', 'value'], value: 2},
+      {op: 'replace', path: ['users', 'a', 'age'], value: 30},
+    ]);
+  });
+
+  it('rolls back every change if an updater throws', () => {
+    const store = createTestStore();
+    const initialState = store.getState();
+    const cb = jest.fn();
+    const listener = jest.fn();
+    store.subscribe([], cb);
+    store.onCommit(listener);
+
+    expect(() =>
+      store.batch(() => {
+        store.update((draft) => {
+          draft.counter.value = 2;
+        });
+        store.update(() => {
+          throw new Error('oops');
+        });
+      }),
+    ).toThrow('oops');
+
+    expect(store.getState()).toBe(initialState);
+    expect(cb).not.toBeCalled();
+    expect(listener).not.toBeCalled();
+  });
+
+  it('only rolls back a nested batch that throws', () => {
+    const store = createTestStore();
+
+    store.batch(() => {
+      store.update((draft) => {
+        draft.counter.value = 2;
+      });
+      try {
+        store.batch(() => {
+          store.update((draft) => {
+            draft.users['a'].age = 30;
+          });
+          throw new Error('oops');
+        });
+      } catch (e) {}
+    });
+
+    expect(store.getState().counter.value).toBe(2);
+    expect(store.getState().users['a'].age).toBe(26);
+  });
+
+  it('restores the undo history if it throws', () => {
+    const store = createTestStore({history: {}});
+    store.update((draft) => {
+      draft.counter.value = 2;
+    });
+
+    expect(() =>
+      store.batch(() => {
+        store.undo();
+        throw new Error('oops');
+      }),
+    ).toThrow('oops');
+
+    expect(store.getState().counter.value).toBe(2);
+    expect(store.canUndo()).toBe(true);
+    expect(store.canRedo()).toBe(false);
+  });
+
+  it('is a single undo step', () => {
+    const store = createTestStore({history: {}});
+
+    store.batch(() => {
+      store.update((draft) => {
+        draft.counter.value = 2;
+      });
+      store.update((draft) => {
+        draft.counter.value = 3;
+      });
+    });
+    store.undo();
+
+    expect(store.getState().counter.value).toBe(1);
+    expect(store.canUndo()).toBe(false);
+  });
+});
+
+describe('diff', () => {
+  it('notifies every subscriber below a replaced value by default', () => {
+    const store = createTestStore();
+    const ageCB = jest.fn();
+    store.subscribe(['users', 'a', 'age'], ageCB);
+
+    store.update((draft) => {
+      draft.users = {a: {name: 'Tiff', age: 26}};
+    });
+    expect(ageCB).toBeCalledTimes(1);
+  });
+
+  it('only notifies the subscribers whose values changed', () => {
+    const store = createTestStore({diff: true});
+    const nameCB = jest.fn();
+    const ageCB = jest.fn();
+    const userCB = jest.fn();
+    store.subscribe(['users', 'a', 'name'], nameCB);
+    store.subscribe(['users', 'a', 'age'], ageCB);
+    store.subscribe(['users', 'a'], userCB);
+
+    store.update((draft) => {
+      draft.users = {a: {name: 'Tiff', age: 26}};
+    });
+    expect(nameCB).toBeCalledTimes(1);
+    expect(ageCB).not.toBeCalled();
+    expect(userCB).toBeCalledTimes(1);
+  });
+
+  it('uses the equality check that is passed in', () => {
+    const store = createTestStore({
+      diff: (prev, next) => JSON.stringify(prev) === JSON.stringify(next),
+    });
+    const userCB = jest.fn();
+    const usersCB = jest.fn();
+    store.subscribe(['users', 'a'], userCB);
+    store.subscribe(['users'], usersCB);
+
+    store.update((draft) => {
+      draft.users = {a: {name: 'Sawyer', age: 26}};
+    });
+    expect(userCB).not.toBeCalled();
+    expect(usersCB).not.toBeCalled();
+  });
+});
+
+describe('pattern subscriptions', () => {
+  it('matches any key with a wildcard and passes the concrete path', () => {
+    const store = createTestStore();
+    store.update((draft) => {
+      draft.users['b'] = {name: 'Tiff', age: 27};
+    });
+    const cb = jest.fn();
+    store.subscribe(['users', '*', 'name'], cb);
+
+    store.update((draft) => {
+      draft.users['b'].name = 'Tiffany';
+      draft.users['a'].age++;
+    });
+    expect(cb).toBeCalledTimes(1);
+    expect(cb).toBeCalledWith(['users', 'b', 'name']);
+
+    store.update((draft) => {
+      draft.users['c'] = {name: 'Lily', age: 3};
+      draft.users['a'].name = 'Sawyer Hood';
+    });
+    expect(cb).toBeCalledTimes(3);
+    expect(cb).toBeCalledWith(['users', 'c', 'name']);
+    expect(cb).toBeCalledWith(['users', 'a', 'name']);
+  });
+
+  it('matches any depth with a deep wildcard', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.subscribe(['**', 'name'], cb);
+
+    store.update((draft) => {
+      draft.items![0].name = 'goodbye';
+      draft.users['a'].name = 'Tiff';
+      draft.counter.value++;
+    });
+    expect(cb).toBeCalledTimes(2);
+    expect(cb).toBeCalledWith(['items', '0', 'name']);
+    expect(cb).toBeCalledWith(['users', 'a', 'name']);
+  });
+
+  it('matches keys in maps', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.subscribe(['map', '*', 'food'], cb);
+
+    store.update((draft) => {
+      draft.map.set('tiff', {food: 'pizza'});
+    });
+    expect(cb).toBeCalledWith(['map', 'tiff', 'food']);
+  });
+
+  it('passes the path to exact subscriptions', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.subscribe(['counter', 'value'], cb);
+
+    store.update((draft) => {
+      draft.counter = {value: 5};
+    });
+    expect(cb).toBeCalledWith(['counter', 'value']);
+  });
+
+  it('stops matching once unsubscribed', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    const unsub = store.subscribe(['users', '*', 'name'], cb);
+    unsub();
+
+    store.update((draft) => {
+      draft.users['a'].name = 'Tiff';
+    });
+    expect(cb).not.toBeCalled();
+    expect(store.inspectSubscriptions().nodeCount).toBe(1);
+  });
+});
+
+describe('collection handles', () => {
+  it('reads the keys of arrays, objects and maps', () => {
+    const store = createTestStore();
+    const auger = store.auger();
+    expect(auger.items.$keys()).toEqual([0]);
+    expect(auger.users.$keys()).toEqual(['a']);
+    expect(auger.map.$keys()).toEqual(['sawyer']);
+    expect(auger.items.$length()).toBe(1);
+    expect(auger.map.$length()).toBe(1);
+
+    const [[key, item]] = auger.items.$entries();
+    expect(key).toBe(0);
+    expect(item.name.$read()).toBe('hello');
+  });
+
+  it('reads the entries of maps with number keys', () => {
+    const store = createStore({byId: new Map([[1, {name: 'Sawyer'}]])});
+    const [[key, user]] = store.auger().byId.$entries();
+    expect(key).toBe(1);
+    expect(user.name.$read()).toBe('Sawyer');
+  });
+
+  it('only notifies structure subscribers when keys are added or removed', () => {
+    const store = createTestStore();
+    const itemsCB = jest.fn();
+    const usersCB = jest.fn();
+    const auger = store.auger((path) => {
+      store.subscribe(path, path[0] === 'items' ? itemsCB : usersCB);
+    });
+    auger.items.$length();
+    auger.users.$keys();
+
+    store.update((draft) => {
+      draft.items![0].name = 'goodbye';
+      draft.users['a'].age++;
+    });
+    expect(itemsCB).not.toBeCalled();
+    expect(usersCB).not.toBeCalled();
+
+    store.update((draft) => {
+      draft.items!.push({id: 2, name: 'two'});
+      draft.users['b'] = {name: 'Tiff', age: 27};
+    });
+    expect(itemsCB).toBeCalledTimes(1);
+    expect(usersCB).toBeCalledTimes(1);
+
+    store.update((draft) => {
+      draft.items!.pop();
+      delete draft.users['b'];
+    });
+    expect(itemsCB).toBeCalledTimes(2);
+    expect(usersCB).toBeCalledTimes(2);
+  });
+
+  it("doesn't rerender a list when the contents of an item change", () => {
+    const store = createTestStore();
+    const onListRender = jest.fn();
+    function Item({index}: {index: number}) {
+      const auger = useAuger(store);
+      return <li>{auger.items[index].name.$read()}</li>;
+    }
+    function List() {
+      const auger = useAuger(store);
+      onListRender();
+      return (
+        <ul>
+          {auger.items.$keys().map((i) => (
+            <Item key={i} index={i} />
+          ))}
+        </ul>
+      );
+    }
+    render(<List />);
+
+    act(() => {
+      store.update((draft) => {
+        draft.items![0].name = 'goodbye';
+      });
+    });
+    expect(screen.getByText('goodbye')).toBeTruthy();
+    expect(onListRender).toBeCalledTimes(1);
+
+    act(() => {
+      store.update((draft) => {
+        draft.items!.push({id: 2, name: 'two'});
+      });
+    });
+    expect(screen.getByText('two')).toBeTruthy();
+    expect(onListRender).toBeCalledTimes(2);
+  });
+});
+
+describe('Sets', () => {
+  function createSetStore() {
+    return createStore({tags: new Set(['a'])}, {scheduler: 'sync'});
+  }
+
+  it('reads and updates a set', () => {
+    const store = createSetStore();
+    const auger = store.auger();
+    auger.tags.$add('b');
+    expect(auger.tags.$has('b')).toBe(true);
+    expect(auger.tags.$size()).toBe(2);
+    expect(auger.tags.$values()).toEqual(['a', 'b']);
+
+    auger.tags.$delete('a');
+    expect(auger.tags.$has('a')).toBe(false);
+    expect(auger.tags.$values()).toEqual(['b']);
+  });
+
+  it('only notifies subscribers of the values that were added or removed', () => {
+    const store = createSetStore();
+    const aCB = jest.fn();
+    const bCB = jest.fn();
+    const tagsCB = jest.fn();
+    store.subscribe(['tags', 'a'], aCB);
+    store.subscribe(['tags', 'b'], bCB);
+    store.subscribe(['tags'], tagsCB);
+
+    store.auger().tags.$add('b');
+    expect(aCB).not.toBeCalled();
+    expect(bCB).toBeCalledTimes(1);
+    expect(tagsCB).toBeCalledTimes(1);
+
+    store.auger().tags.$delete('a');
+    expect(aCB).toBeCalledTimes(1);
+    expect(store.inspectSubscriptions().subscriberCount).toBe(3);
+  });
+
+  it("doesn't rerender a component checking a value when another is added", () => {
+    const store = createSetStore();
+    const onRender = jest.fn();
+    function HasA() {
+      const auger = useAuger(store);
+      onRender();
+      return <div data-testid="has-a">{String(auger.tags.$has('a'))}</div>;
+    }
+    render(<HasA />);
+
+    act(() => {
+      store.auger().tags.$add('b');
+    });
+    expect(onRender).toBeCalledTimes(1);
+
+    act(() => {
+      store.auger().tags.$delete('a');
+    });
+    expect(onRender).toBeCalledTimes(2);
+    expect(screen.getByTestId('has-a').textContent).toBe('false');
+  });
+});
+
+describe('subscription garbage collection', () => {
+  it('prunes empty branches on unsubscribe', () => {
+    const store = createTestStore();
+    const unsubName = store.subscribe(['users', 'a', 'name'], () => {});
+    const unsubAge = store.subscribe(['users', 'a', 'age'], () => {});
+    const unsubUsers = store.subscribe(['users'], () => {});
+    expect(store.inspectSubscriptions().nodeCount).toBe(5);
+
+    unsubName();
+    expect(store.inspectSubscriptions().nodeCount).toBe(4);
+
+    unsubAge();
+    expect(store.inspectSubscriptions().nodeCount).toBe(2);
+
+    unsubUsers();
+    expect(store.inspectSubscriptions()).toEqual({
+      nodeCount: 1,
+      subscriberCount: 0,
+      depth: 0,
+      paths: [],
+    });
+  });
+
+  it('keeps notifying subscribers of removed properties that are added back', () => {
+    const store = createTestStore();
+    const nameCB = jest.fn();
+    const mapCB = jest.fn();
+    store.subscribe(['users', 'a', 'name'], nameCB);
+    store.subscribe(['map', 'sawyer'], mapCB);
+
+    store.update((draft) => {
+      delete draft.users['a'];
+      draft.map.delete('sawyer');
+    });
+    expect(nameCB).toBeCalledTimes(1);
+    expect(mapCB).toBeCalledTimes(1);
+
+    store.update((draft) => {
+      draft.users['a'] = {name: 'Tiff', age: 27};
+      draft.map.set('sawyer', {food: 'pizza'});
+    });
+    expect(nameCB).toBeCalledTimes(2);
+    expect(mapCB).toBeCalledTimes(2);
+  });
+
+  it('clears the nodes of removed properties once they are unsubscribed', () => {
+    const store = createTestStore();
+    const unsub = store.subscribe(['users', 'a', 'name'], () => {});
+
+    store.update((draft) => {
+      delete draft.users['a'];
+    });
+    expect(store.inspectSubscriptions().nodeCount).toBe(4);
+
+    unsub();
+    expect(store.inspectSubscriptions().nodeCount).toBe(1);
+  });
+
+  it('keeps the nodes of items removed from an array', () => {
+    const store = createTestStore();
+    store.update((draft) => {
+      draft.items!.push({id: 2, name: 'two'}, {id: 3, name: 'three'});
+    });
+    const cb = jest.fn();
+    store.subscribe(['items', '0', 'name'], () => {});
+    store.subscribe(['items', '2', 'name'], cb);
+
+    store.update((draft) => {
+      draft.items!.splice(1, 2);
+    });
+    expect(cb).toBeCalledTimes(1);
+    expect(store.inspectSubscriptions().paths).toEqual([
+      {path: ['items', '0', 'name'], subscribers: 1},
+      {path: ['items', '2', 'name'], subscribers: 1},
+    ]);
+
+    store.update((draft) => {
+      draft.items!.push({id: 2, name: 'two'}, {id: 3, name: 'three'});
+    });
+    expect(cb).toBeCalledTimes(2);
+  });
+
+  it('reports subscriber counts per path and the depth', () => {
+    const store = createTestStore();
+    store.subscribe([], () => {});
+    store.subscribe(['counter', 'value'], () => {});
+    store.subscribe(['counter', 'value'], () => {});
+
+    expect(store.inspectSubscriptions()).toEqual({
+      nodeCount: 3,
+      subscriberCount: 3,
+      depth: 2,
+      paths: [
+        {path: [], subscribers: 1},
+        {path: ['counter', 'value'], subscribers: 2},
+      ],
+    });
+  });
+});
+
+describe('history', () => {
+  it('undoes and redoes updates', () => {
+    const store = createTestStore({history: {}});
+    expect(store.canUndo()).toBe(false);
+
+    store.update((draft) => {
+      draft.counter.value = 2;
+    });
+    store.update((draft) => {
+      draft.users['a'].age = 30;
+    });
+
+    store.undo();
+    expect(store.getState().users['a'].age).toBe(26);
+    expect(store.getState().counter.value).toBe(2);
+    expect(store.canRedo()).toBe(true);
+
+    store.undo();
+    expect(store.getState().counter.value).toBe(1);
+    expect(store.canUndo()).toBe(false);
+
+    store.redo();
+    store.redo();
+    expect(store.getState().counter.value).toBe(2);
+    expect(store.getState().users['a'].age).toBe(30);
+    expect(store.canRedo()).toBe(false);
+  });
+
+  it('only notifies the paths touched by the undo', () => {
+    const store = createTestStore({history: {}});
+    store.update((draft) => {
+      draft.counter.value = 2;
+    });
+    const counterCB = jest.fn();
+    const usersCB = jest.fn();
+    store.subscribe(['counter', 'value'], counterCB);
+    store.subscribe(['users'], usersCB);
+
+    store.undo();
+
+    expect(counterCB).toBeCalledTimes(1);
+    expect(usersCB).not.toBeCalled();
+  });
+
+  it('groups several updates into one step', () => {
+    const store = createTestStore({history: {}});
+    store.group(() => {
+      store.update((draft) => {
+        draft.counter.value = 2;
+      });
+      store.update((draft) => {
+        draft.counter.value = 3;
+        draft.users['a'].name = 'Hood';
+      });
+    });
+
+    store.undo();
+    expect(store.getState().counter.value).toBe(1);
+    expect(store.getState().users['a'].name).toBe('Sawyer');
+    expect(store.canUndo()).toBe(false);
+
+    store.redo();
+    expect(store.getState().counter.value).toBe(3);
+    expect(store.getState().users['a'].name).toBe('Hood');
+  });
+
+  it('drops the oldest steps past the limit', () => {
+    const store = createTestStore({history: {limit: 2}});
+    for (let i = 0; i < 3; i++) {
+      store.update((draft) => {
+        draft.counter.value++;
+      });
+    }
+
+    store.undo();
+    store.undo();
+    store.undo();
+    expect(store.getState().counter.value).toBe(2);
+  });
+
+  it('clears the redo stack on a new update', () => {
+    const store = createTestStore({history: {}});
+    store.update((draft) => {
+      draft.counter.value = 2;
+    });
+    store.undo();
+    store.update((draft) => {
+      draft.counter.value = 5;
+    });
+
+    expect(store.canRedo()).toBe(false);
+  });
+
+  it("doesn't keep history unless it is enabled", () => {
+    const store = createTestStore();
+    store.update((draft) => {
+      draft.counter.value = 2;
+    });
+
+    expect(store.canUndo()).toBe(false);
+  });
+});
+
 describe('useAuger', () => {
   it('allows for reading and updating the store', () => {
     const store = createTestStore();
@@ -164,8 +776,10 @@ describe('useAuger', () => {
     }
     const {baseElement} = render(<Component />);
     expect(baseElement.textContent).toBe('');
-    store.update((draft) => {
-      draft.users = {sawyer: {id: 20, name: 'sawyer'}};
+    act(() => {
+      store.update((draft) => {
+        draft.users = {sawyer: {id: 20, name: 'sawyer'}};
+      });
     });
     expect(baseElement.textContent).toEqual('20');
   });
@@ -236,6 +850,138 @@ describe('useAuger', () => {
     expect(onCounterRender).toBeCalledTimes(2);
   });
 
+  it("doesn't leak subscriber nodes after unmounting", () => {
+    const store = createTestStore();
+    function Component() {
+      const auger = useAuger(store);
+      return <div>{auger.users['a'].name.$read()}</div>;
+    }
+    const {unmount} = render(<Component />);
+    expect(store.inspectSubscriptions().subscriberCount).toBe(1);
+
+    unmount();
+    expect(store.inspectSubscriptions().nodeCount).toBe(1);
+  });
+
+  it('subscribes to a path that is read several times once', () => {
+    const store = createTestStore();
+    function Component() {
+      const auger = useAuger(store);
+      return (
+        <div>
+          {auger.users['a'].name.$read()} {auger.users['a'].name.$read()}
+        </div>
+      );
+    }
+    render(<Component />);
+    expect(store.inspectSubscriptions().subscriberCount).toBe(1);
+  });
+
+  it('only subscribes to new paths and releases the ones no longer read', () => {
+    const store = createTestStore();
+    const subscribe = jest.spyOn(store, 'subscribe');
+    function Component() {
+      const auger = useAuger(store);
+      const value = auger.counter.value.$read();
+      return (
+        <div data-testid="counter">
+          {value % 2 === 0 ? auger.users['a'].name.$read() : value}
+        </div>
+      );
+    }
+    render(<Component />);
+    expect(subscribe).toBeCalledTimes(1);
+
+    act(() => {
+      store.update((draft) => {
+        draft.counter.value++;
+      });
+    });
+    expect(screen.getByTestId('counter').textContent).toBe('Sawyer');
+    expect(subscribe).toBeCalledTimes(2);
+    expect(subscribe.mock.calls[1][0]).toEqual(['users', 'a', 'name']);
+
+    act(() => {
+      store.update((draft) => {
+        draft.counter.value++;
+      });
+    });
+    expect(screen.getByTestId('counter').textContent).toBe('3');
+    expect(subscribe).toBeCalledTimes(2);
+    expect(store.inspectSubscriptions().paths.map(({path}) => path)).toEqual([
+      ['counter', 'value'],
+    ]);
+  });
+
+  it('subscribes to the new store when the store changes', () => {
+    const first = createTestStore();
+    const second = createTestStore();
+    function Component({store}: {store: typeof first}) {
+      const auger = useAuger(store);
+      return <div data-testid="name">{auger.users['a'].name.$read()}</div>;
+    }
+    const {rerender} = render(<Component store={first} />);
+    rerender(<Component store={second} />);
+    expect(first.inspectSubscriptions().subscriberCount).toBe(0);
+    expect(second.inspectSubscriptions().subscriberCount).toBe(1);
+
+    act(() => {
+      second.update((draft) => {
+        draft.users['a'].name = 'Tiff';
+      });
+    });
+    expect(screen.getByTestId('name').textContent).toBe('Tiff');
+  });
+
+  it('picks up updates that land before it subscribes', () => {
+    const store = createTestStore();
+    function Updater() {
+      React.useLayoutEffect(() => {
+        store.update((draft) => {
+          draft.users['a'].name = 'Tiff';
+        });
+      }, []);
+      return null;
+    }
+    function Component() {
+      const auger = useAuger(store);
+      return (
+        <div>
+          <div data-testid="name">{auger.users['a'].name.$read()}</div>
+          <Updater />
+        </div>
+      );
+    }
+    render(<Component />);
+    expect(screen.getByTestId('name').textContent).toBe('Tiff');
+  });
+
+  it("doesn't tear when the store changes during a render", () => {
+    const store = createTestStore();
+    function Name({id}: {id: string}) {
+      const auger = useAuger(store);
+      return <div data-testid={id}>{auger.users['a'].name.$read()}</div>;
+    }
+    function Mutator() {
+      const auger = useAuger(store);
+      if (auger.users['a'].name.$read() === 'Sawyer') {
+        store.update((draft) => {
+          draft.users['a'].name = 'Tiff';
+        });
+      }
+      return null;
+    }
+    render(
+      <div>
+        <Name id="before" />
+        <Mutator />
+        <Name id="after" />
+      </div>,
+    );
+    expect(screen.getByTestId('before').textContent).toBe('Tiff');
+    expect(screen.getByTestId('after').textContent).toBe('Tiff');
+  });
+
   it('correctly types deep auger paths', () => {
     const store = createTestStore();
     function Test() {
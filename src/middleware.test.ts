@@ -0,0 +1,139 @@
+import {createStore, logger, freezeInDevelopment} from '.';
+import type {Middleware} from '.';
+import {produceWithPatches} from 'immer';
+
+type TestState = {
+  counter: {value: number};
+  user: {name: string};
+};
+
+const INITIAL_STATE: TestState = {counter: {value: 1}, user: {name: 'Sawyer'}};
+
+describe('middleware', () => {
+  it('sees the updater, the states and the patches', () => {
+    const middleware = jest.fn<void, Parameters<Middleware<TestState>>>(
+      (update, next) => next(update),
+    );
+    const store = createStore(INITIAL_STATE, {middleware: [middleware]});
+    const updater = (draft: TestState) => {
+      draft.counter.value = 2;
+    };
+
+    store.update(updater);
+
+    const [update] = middleware.mock.calls[0];
+    expect(update.updater).toBe(updater);
+    expect(update.prevState).toBe(INITIAL_STATE);
+    expect(update.nextState.counter.value).toBe(2);
+    expect(update.patches).toEqual([
+      {op: 'replace', path: ['counter', 'value'], value: 2},
+    ]);
+    expect(update.inversePatches).toEqual([
+      {op: 'replace', path: ['counter', 'value'], value: 1},
+    ]);
+  });
+
+  it('runs the middleware in order', () => {
+    const calls: string[] = [];
+    const named = (name: string): Middleware<TestState> => (update, next) => {
+      calls.push(`${name} before`);
+      next(update);
+      calls.push(`${name} after`);
+    };
+    const store = createStore(INITIAL_STATE, {
+      middleware: [named('a'), named('b')],
+    });
+
+    store.update((draft) => {
+      draft.counter.value++;
+    });
+
+    expect(calls).toEqual(['a before', 'b before', 'b after', 'a after']);
+  });
+
+  it('can veto an update before subscribers are notified', () => {
+    const readOnlyUser: Middleware<TestState> = (update, next) => {
+      if (!update.patches.some((patch) => patch.path[0] === 'user')) {
+        next(update);
+      }
+    };
+    const store = createStore(INITIAL_STATE, {middleware: [readOnlyUser]});
+    const cb = jest.fn();
+    store.subscribe(['user'], cb);
+
+    store.update((draft) => {
+      draft.user.name = 'Hood';
+    });
+
+    expect(store.getState().user.name).toBe('Sawyer');
+    expect(cb).not.toBeCalled();
+  });
+
+  it('can change an update', () => {
+    const clampCounter: Middleware<TestState> = (update, next) => {
+      if (update.nextState.counter.value <= 10) {
+        next(update);
+        return;
+      }
+      const [nextState, patches, inversePatches] = produceWithPatches(
+        update.prevState,
+        (draft) => {
+          draft.counter.value = 10;
+        },
+      );
+      next({...update, nextState, patches, inversePatches});
+    };
+    const store = createStore(INITIAL_STATE, {middleware: [clampCounter]});
+    const cb = jest.fn();
+    store.subscribe(['counter', 'value'], cb);
+
+    store.update((draft) => {
+      draft.counter.value = 50;
+    });
+
+    expect(store.getState().counter.value).toBe(10);
+    expect(cb).toBeCalledTimes(1);
+  });
+});
+
+describe('logger', () => {
+  it('logs every update', () => {
+    const log = jest.fn();
+    const store = createStore(INITIAL_STATE, {middleware: [logger(log)]});
+
+    store.update((draft) => {
+      draft.counter.value = 2;
+    });
+
+    expect(log).toBeCalledWith(
+      'auger-state update',
+      [{op: 'replace', path: ['counter', 'value'], value: 2}],
+      store.getState(),
+    );
+  });
+});
+
+describe('freezeInDevelopment', () => {
+  it('freezes the state after an update', () => {
+    const store = createStore(
+      {counter: {value: 1}, user: {name: 'Sawyer'}},
+      {middleware: [freezeInDevelopment()]},
+    );
+
+    store.update((draft) => {
+      draft.counter.value = 2;
+    });
+
+    expect(Object.isFrozen(store.getState().counter)).toBe(true);
+    expect(Object.isFrozen(store.getState().user)).toBe(true);
+    expect(() => {
+      (store.getState().counter as any).value = 3;
+    }).toThrow();
+
+    // Updates still work on the frozen state
+    store.update((draft) => {
+      draft.counter.value = 3;
+    });
+    expect(store.getState().counter.value).toBe(3);
+  });
+});
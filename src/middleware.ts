@@ -0,0 +1,24 @@
+import {freeze} from 'immer';
+import type {Middleware} from './store';
+
+// Logs the patches and the next state of every update.
+export function logger<T>(
+  log: (...args: unknown[]) => void = console.log,
+): Middleware<T> {
+  return (update, next) => {
+    log('auger-state update', update.patches, update.nextState);
+    next(update);
+  };
+}
+
+// Deeply freezes the state after every update outside of production, so
+// mutating the state outside of `update` throws instead of silently
+// corrupting the store.
+export function freezeInDevelopment<T>(): Middleware<T> {
+  return (update, next) => {
+    if (process.env.NODE_ENV !== 'production') {
+      freeze(update.nextState, true);
+    }
+    next(update);
+  };
+}
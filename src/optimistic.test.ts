@@ -0,0 +1,200 @@
+import {createStore} from '.';
+
+type Todo = {text: string; isDone: boolean};
+type TestState = {
+  todos: Todo[];
+  user: {name: string};
+  counter: number;
+};
+
+function createTestStore() {
+  const state: TestState = {
+    todos: [
+      {text: 'Write tests', isDone: false},
+      {text: 'Ship it', isDone: false},
+    ],
+    user: {name: 'Sawyer'},
+    counter: 0,
+  };
+  return createStore(state, {scheduler: 'sync'});
+}
+
+describe('optimistic', () => {
+  it('applies the update right away', () => {
+    const store = createTestStore();
+    store.optimistic((draft) => {
+      draft.todos[0].isDone = true;
+    });
+    expect(store.getState().todos[0].isDone).toBe(true);
+  });
+
+  it('rolls back the update', () => {
+    const store = createTestStore();
+    const initial = store.getState();
+    const change = store.optimistic((draft) => {
+      draft.todos[0].isDone = true;
+    });
+    change.rollback();
+    expect(store.getState()).toEqual(initial);
+  });
+
+  it('keeps the updates made after it', () => {
+    const store = createTestStore();
+    const change = store.optimistic((draft) => {
+      draft.counter += 10;
+      draft.todos[0].isDone = true;
+    });
+    store.update((draft) => {
+      draft.counter++;
+      draft.user.name = 'Tiff';
+      draft.todos.push({text: 'Celebrate', isDone: false});
+    });
+
+    change.rollback();
+    expect(store.getState()).toEqual({
+      todos: [
+        {text: 'Write tests', isDone: false},
+        {text: 'Ship it', isDone: false},
+        {text: 'Celebrate', isDone: false},
+      ],
+      user: {name: 'Tiff'},
+      counter: 1,
+    });
+  });
+
+  it('only notifies the paths that changed', () => {
+    const store = createTestStore();
+    const change = store.optimistic((draft) => {
+      draft.todos[0].isDone = true;
+    });
+    store.update((draft) => {
+      draft.user.name = 'Tiff';
+    });
+
+    const todoCB = jest.fn();
+    const otherTodoCB = jest.fn();
+    const userCB = jest.fn();
+    const counterCB = jest.fn();
+    store.subscribe(['todos', '0', 'isDone'], todoCB);
+    store.subscribe(['todos', '1', 'isDone'], otherTodoCB);
+    store.subscribe(['user', 'name'], userCB);
+    store.subscribe(['counter'], counterCB);
+
+    change.rollback();
+    expect(todoCB).toBeCalledTimes(1);
+    expect(otherTodoCB).not.toBeCalled();
+    expect(userCB).not.toBeCalled();
+    expect(counterCB).not.toBeCalled();
+  });
+
+  it('drops later updates that fail without it', () => {
+    const store = createTestStore();
+    const change = store.optimistic((draft) => {
+      draft.todos.push({text: 'Pending', isDone: false});
+    });
+    store.update((draft) => {
+      draft.todos[2].isDone = true;
+    });
+    store.update((draft) => {
+      draft.counter++;
+    });
+
+    change.rollback();
+    expect(store.getState().todos).toHaveLength(2);
+    expect(store.getState().counter).toBe(1);
+  });
+
+  it('rolls back one of several pending updates', () => {
+    const store = createTestStore();
+    const first = store.optimistic((draft) => {
+      draft.todos[0].isDone = true;
+    });
+    const second = store.optimistic((draft) => {
+      draft.todos[1].isDone = true;
+    });
+
+    first.rollback();
+    expect(store.getState().todos.map((todo) => todo.isDone)).toEqual([
+      false,
+      true,
+    ]);
+    second.rollback();
+    expect(store.getState().todos.map((todo) => todo.isDone)).toEqual([
+      false,
+      false,
+    ]);
+  });
+
+  it('does nothing when rolling back after committing', () => {
+    const store = createTestStore();
+    const listener = jest.fn();
+    const change = store.optimistic((draft) => {
+      draft.counter++;
+    });
+    change.commit();
+    store.onCommit(listener);
+    change.rollback();
+    expect(store.getState().counter).toBe(1);
+    expect(listener).not.toBeCalled();
+  });
+
+  it('keeps a state that replaced it', () => {
+    const store = createTestStore();
+    const change = store.optimistic((draft) => {
+      draft.counter = 5;
+    });
+    store.setState({...store.getState(), counter: 3});
+
+    change.rollback();
+    expect(store.getState().counter).toBe(3);
+  });
+
+  it('forgets the updates of a batch that was rolled back', () => {
+    const store = createTestStore();
+    const change = store.optimistic((draft) => {
+      draft.todos[0].isDone = true;
+    });
+    expect(() =>
+      store.batch(() => {
+        store.update((draft) => {
+          draft.counter += 5;
+        });
+        throw new Error('oops');
+      }),
+    ).toThrow('oops');
+
+    change.rollback();
+    expect(store.getState().todos[0].isDone).toBe(false);
+    expect(store.getState().counter).toBe(0);
+  });
+
+  it('drops an optimistic update made in a batch that was rolled back', () => {
+    const store = createTestStore();
+    let change = store.optimistic(() => {});
+    expect(() =>
+      store.batch(() => {
+        change = store.optimistic((draft) => {
+          draft.todos.pop();
+        });
+        throw new Error('oops');
+      }),
+    ).toThrow('oops');
+
+    change.rollback();
+    expect(store.getState().todos).toHaveLength(2);
+  });
+
+  it('records the rollback in the undo history', () => {
+    const store = createStore({counter: 0}, {scheduler: 'sync', history: {}});
+    const change = store.optimistic(
+      (draft) => {
+        draft.counter++;
+      },
+      {name: 'counter/increment'},
+    );
+    change.rollback();
+    expect(store.getState().counter).toBe(0);
+    store.undo();
+    expect(store.getState().counter).toBe(1);
+  });
+});
@@ -0,0 +1,57 @@
+import {applyPatches, produceWithPatches} from 'immer';
+import type {Patch} from 'immer';
+
+// Returned by `store.optimistic`. Call `commit` once the change is confirmed
+// (ex the server replied) or `rollback` to revert it if it failed. Once
+// either has been called the other does nothing.
+export type OptimisticUpdate = {
+  commit(): void;
+  rollback(): void;
+};
+
+type Change = {
+  patches: Patch[];
+  inversePatches: Patch[];
+  // The updater that made the change, if it was made with `update`.
+  updater?: (draft: any) => any;
+};
+
+// An optimistic update that hasn't been committed or rolled back yet, along
+// with every change made to the store after it.
+export type OptimisticEntry = Change & {later: Change[]};
+
+// Returns the patches that revert an optimistic update. The changes made
+// after it are undone, the optimistic update is reverted and then the later
+// changes are rebased on top: their updaters run again on the state without
+// the optimistic update, so ex incrementing a counter still increments it.
+// Changes without an updater (ex undo or setState) are applied as patches. A
+// change that fails without the optimistic update (ex it changed a value that
+// the optimistic update added) is dropped.
+export function rebase(state: any, entry: OptimisticEntry): Patch[] {
+  const patches: Patch[] = [];
+  const apply = (next: Patch[]) => {
+    state = applyPatches(state, next);
+    patches.push(...next);
+  };
+  for (let i = entry.later.length - 1; i >= 0; i--) {
+    apply(entry.later[i].inversePatches);
+  }
+  apply(entry.inversePatches);
+  for (const change of entry.later) {
+    try {
+      if (change.updater) {
+        const [next, redo] = produceWithPatches(
+          state as object,
+          change.updater,
+        );
+        state = next;
+        patches.push(...redo);
+      } else {
+        apply(change.patches);
+      }
+    } catch (e) {
+      // The change doesn't apply without the optimistic update
+    }
+  }
+  return patches;
+}
@@ -0,0 +1,121 @@
+// All of the valid properties keys of an object
+export type SubKey = string | number | symbol;
+
+// A key that stands for the structure of a node, meaning its keys rather
+// than its values. Subscribing to it is only notified when keys are added or
+// removed.
+export const STRUCTURE: unique symbol = Symbol('structure');
+
+// The structure of every object we have looked at, the state is immutable
+// so it can't change.
+const structures: WeakMap<object, string> = new WeakMap();
+
+// Returns a value that only changes when keys are added to or removed from
+// a node. Arrays are compared by their length and everything else by its
+// keys.
+function getStructure(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.length;
+  } else if (value == null || typeof value !== 'object') {
+    return undefined;
+  }
+  let structure = structures.get(value as object);
+  if (structure == null) {
+    structure = pathKey(getKeys(value));
+    structures.set(value as object, structure);
+  }
+  return structure;
+}
+
+// Returns the value of a property of a node in the state, handling
+// Maps, Sets and nullable nodes. The children of a Set are its values and
+// the value of a child is whether the Set has it.
+export function getChild(value: any, key: unknown): any {
+  if (key === STRUCTURE) {
+    return getStructure(value);
+  } else if (value instanceof Map) {
+    return value.get(key);
+  } else if (value instanceof Set) {
+    return value.has(key);
+  } else if (value == null) {
+    return value;
+  }
+  return value[key as string];
+}
+
+// Returns the value at a path in the state or undefined (or null) if a
+// node along the path doesn't exist.
+export function getIn(value: any, path: SubKey[]): any {
+  for (const key of path) {
+    if (value == null) {
+      return value;
+    }
+    value = getChild(value, key);
+  }
+  return value;
+}
+
+// Sets the value at a path in a draft of the state. Nothing is set if the
+// parent of the property doesn't exist.
+export function setIn(draft: any, path: SubKey[], value: unknown) {
+  const parent = getIn(draft, path.slice(0, -1));
+  const key = path[path.length - 1];
+  if (parent instanceof Map) {
+    parent.set(key, value);
+  } else if (parent != null) {
+    parent[key as string] = value;
+  }
+}
+
+// Returns true if a patch changed the value at a path, either by changing
+// the path itself, one of its ancestors or something below it.
+export function touches(patchPath: SubKey[], path: SubKey[]): boolean {
+  const length = Math.min(patchPath.length, path.length);
+  for (let i = 0; i < length; i++) {
+    if (String(patchPath[i]) !== String(path[i])) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Ids for the objects used as keys in a path, ex a value in a Set.
+const objectIds: WeakMap<object, number> = new WeakMap();
+let nextObjectId = 0;
+
+// Returns a string that identifies a path, so paths can be used as keys.
+// Keys are compared as strings, the same way the subscriber tree does,
+// except for objects which are compared by reference.
+export function pathKey(path: SubKey[]): string {
+  return JSON.stringify(
+    path.map((key: unknown) => {
+      if (
+        key === null ||
+        (typeof key !== 'object' && typeof key !== 'function')
+      ) {
+        return String(key);
+      }
+      let id = objectIds.get(key as object);
+      if (id == null) {
+        id = nextObjectId++;
+        objectIds.set(key as object, id);
+      }
+      return {object: id};
+    }),
+  );
+}
+
+// Returns the keys of the children of a node in the state. Arrays return
+// their indexes and values that can't have children return no keys.
+export function getKeys(value: unknown): SubKey[] {
+  if (value instanceof Map) {
+    return Array.from(value.keys());
+  } else if (
+    value == null ||
+    typeof value !== 'object' ||
+    value instanceof Set
+  ) {
+    return [];
+  }
+  return Object.keys(value as object);
+}
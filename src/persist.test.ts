@@ -0,0 +1,266 @@
+import {createStore, persist, createMemoryStorage} from '.';
+import {serialize} from './serialize';
+
+type TestState = {
+  preferences: {tabSpacing: number; favorites: Set<string>};
+  tags: Map<string, number>;
+  counter: number;
+};
+
+function createTestStore() {
+  const state: TestState = {
+    preferences: {tabSpacing: 2, favorites: new Set(['tofu'])},
+    tags: new Map([['a', 1]]),
+    counter: 0,
+  };
+  return createStore(state);
+}
+
+describe('persist', () => {
+  it('only saves the persisted paths', async () => {
+    const store = createTestStore();
+    const storage = createMemoryStorage();
+    const persistor = persist(store, {storage, paths: [['preferences']]});
+    await persistor.hydrated;
+
+    store.update((draft) => {
+      draft.preferences.tabSpacing = 4;
+      draft.counter++;
+    });
+    await persistor.flush();
+
+    expect(storage.items.get('auger-state')).toEqual(
+      serialize({
+        version: 0,
+        state: {
+          preferences: {tabSpacing: 4, favorites: new Set(['tofu'])},
+        },
+      }),
+    );
+  });
+
+  it("doesn't save when unrelated paths change", async () => {
+    const store = createTestStore();
+    const storage = createMemoryStorage();
+    const persistor = persist(store, {storage, paths: [['preferences']]});
+    await persistor.hydrated;
+
+    store.update((draft) => {
+      draft.counter++;
+    });
+    await persistor.flush();
+
+    expect(storage.items.size).toBe(0);
+  });
+
+  it('rehydrates the store with Maps and Sets', async () => {
+    const storage = createMemoryStorage();
+    const first = createTestStore();
+    const firstPersistor = persist(first, {
+      storage,
+      paths: [['preferences', 'favorites'], ['tags']],
+    });
+    await firstPersistor.hydrated;
+    first.update((draft) => {
+      draft.preferences.favorites.add('pizza');
+      draft.tags.set('b', 2);
+      draft.preferences.tabSpacing = 8;
+    });
+    await firstPersistor.flush();
+
+    const second = createTestStore();
+    const cb = jest.fn();
+    second.subscribe(['tags'], cb);
+    await persist(second, {
+      storage,
+      paths: [['preferences', 'favorites'], ['tags']],
+    }).hydrated;
+
+    const state = second.getState();
+    expect(state.preferences.favorites).toEqual(new Set(['tofu', 'pizza']));
+    expect(state.tags).toEqual(
+      new Map([
+        ['a', 1],
+        ['b', 2],
+      ]),
+    );
+    // tabSpacing wasn't persisted
+    expect(state.preferences.tabSpacing).toBe(2);
+    expect(cb).toBeCalled();
+  });
+
+  it('migrates state saved with an older version', async () => {
+    const storage = createMemoryStorage();
+    await storage.setItem(
+      'auger-state',
+      serialize({version: 1, state: {preferences: {tabs: 6}}}),
+    );
+    const store = createTestStore();
+    const migrate = jest.fn((persisted: any) => ({
+      preferences: {
+        tabSpacing: persisted.preferences.tabs,
+        favorites: new Set(),
+      },
+    }));
+
+    await persist(store, {
+      storage,
+      paths: [['preferences']],
+      version: 2,
+      migrate,
+    }).hydrated;
+
+    expect(migrate).toBeCalledWith({preferences: {tabs: 6}}, 1);
+    expect(store.getState().preferences.tabSpacing).toBe(6);
+  });
+
+  it("doesn't rehydrate another version without migrate", async () => {
+    const storage = createMemoryStorage();
+    await storage.setItem(
+      'auger-state',
+      serialize({version: 1, state: {preferences: {tabs: 6}}}),
+    );
+    const store = createTestStore();
+    const initial = store.getState();
+
+    await persist(store, {
+      storage,
+      paths: [['preferences']],
+      version: 2,
+    }).hydrated;
+
+    expect(store.getState()).toBe(initial);
+  });
+
+  it('reports failed loads and keeps saving', async () => {
+    const store = createTestStore();
+    const error = new Error('Broken storage');
+    const storage = createMemoryStorage();
+    storage.getItem = () => Promise.reject(error);
+    const onError = jest.fn();
+    const persistor = persist(store, {
+      storage,
+      paths: [['counter']],
+      onError,
+    });
+    await persistor.hydrated;
+    expect(onError).toBeCalledWith(error);
+
+    store.update((draft) => {
+      draft.counter++;
+    });
+    await persistor.flush();
+
+    expect(storage.items.get('auger-state')).toEqual(
+      serialize({version: 0, state: {counter: 1}}),
+    );
+  });
+
+  it('keeps and saves changes made before it is hydrated', async () => {
+    const storage = createMemoryStorage();
+    await storage.setItem(
+      'auger-state',
+      serialize({version: 0, state: {counter: 5, tags: new Map([['b', 2]])}}),
+    );
+    const store = createTestStore();
+    const persistor = persist(store, {
+      storage,
+      paths: [['counter'], ['tags']],
+    });
+
+    store.update((draft) => {
+      draft.counter++;
+    });
+    await persistor.hydrated;
+    expect(store.getState().counter).toBe(1);
+    expect(store.getState().tags).toEqual(new Map([['b', 2]]));
+
+    await persistor.flush();
+    expect(storage.items.get('auger-state')).toEqual(
+      serialize({version: 0, state: {counter: 1, tags: new Map([['b', 2]])}}),
+    );
+  });
+
+  it('saves paths with number keys', async () => {
+    const store = createStore({scores: [1, 2]});
+    const storage = createMemoryStorage();
+    const persistor = persist(store, {storage, paths: [['scores', 0]]});
+    await persistor.hydrated;
+
+    store.update((draft) => {
+      draft.scores[0] = 5;
+    });
+    await persistor.flush();
+
+    expect(storage.items.get('auger-state')).toEqual(
+      serialize({version: 0, state: {scores: {0: 5}}}),
+    );
+  });
+
+  it('throttles saves', async () => {
+    jest.useFakeTimers();
+    try {
+      const store = createTestStore();
+      const storage = createMemoryStorage();
+      const setItem = jest.spyOn(storage, 'setItem');
+      const persistor = persist(store, {
+        storage,
+        paths: [['counter']],
+        throttle: 1000,
+      });
+      await persistor.hydrated;
+
+      for (let i = 0; i < 5; i++) {
+        store.update((draft) => {
+          draft.counter++;
+        });
+      }
+      expect(setItem).not.toBeCalled();
+
+      jest.advanceTimersByTime(1000);
+      expect(setItem).toBeCalledTimes(1);
+      expect(setItem).toBeCalledWith(
+        'auger-state',
+        serialize({version: 0, state: {counter: 5}}),
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('reports failed saves', async () => {
+    const store = createTestStore();
+    const error = new Error('Quota exceeded');
+    const storage = createMemoryStorage();
+    storage.setItem = () => Promise.reject(error);
+    const onError = jest.fn();
+    const persistor = persist(store, {
+      storage,
+      paths: [['counter']],
+      onError,
+    });
+    await persistor.hydrated;
+
+    store.update((draft) => {
+      draft.counter++;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(onError).toBeCalledWith(error);
+  });
+
+  it('stops saving once stopped', async () => {
+    const store = createTestStore();
+    const storage = createMemoryStorage();
+    const persistor = persist(store, {storage, paths: [['counter']]});
+    await persistor.hydrated;
+    persistor.stop();
+
+    store.update((draft) => {
+      draft.counter++;
+    });
+    await persistor.flush();
+
+    expect(storage.items.size).toBe(0);
+  });
+});
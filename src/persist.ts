@@ -0,0 +1,200 @@
+import {getIn, setIn} from './path';
+import type {SubKey} from './path';
+import type {AugerStore} from './store';
+import {serialize, deserialize} from './serialize';
+
+// An async key value store that the state is persisted to. localStorage,
+// AsyncStorage or IndexedDB can all be wrapped to fit this interface.
+export type PersistStorage = {
+  getItem(key: string): Promise<string | null | undefined>;
+  setItem(key: string, value: string): Promise<void>;
+};
+
+export type PersistOptions = {
+  storage: PersistStorage;
+  // The paths in the state that should be persisted.
+  paths: SubKey[][];
+  // The key the state is saved under, defaults to 'auger-state'.
+  key?: string;
+  // The version of the persisted state, defaults to 0. When the saved
+  // version doesn't match, `migrate` is called before rehydrating.
+  version?: number;
+  // Takes the saved state (with only the persisted paths) and the version
+  // it was saved with and returns the state for the current version.
+  // Without it, state saved with another version isn't rehydrated.
+  migrate?: (persisted: any, version: number) => any;
+  // The minimum number of milliseconds between saves, defaults to 0.
+  throttle?: number;
+  // Called when loading or saving the state fails, ex because the storage
+  // is full. Defaults to console.error.
+  onError?: (error: unknown) => void;
+};
+
+export type Persistor = {
+  // Resolves once the saved state has been written to the store, or once
+  // loading it failed. Wait for this before rendering so the first render
+  // has the rehydrated state.
+  hydrated: Promise<void>;
+  // Saves any pending changes right away.
+  flush(): Promise<void>;
+  // Stops persisting the store.
+  stop(): void;
+};
+
+type PersistedState = {
+  version: number;
+  state: unknown;
+};
+
+// Persists parts of a store to a storage and rehydrates the store with
+// them. Only the listed paths are saved and they are saved every time one
+// of them changes.
+export function persist<T>(
+  store: AugerStore<T>,
+  options: PersistOptions,
+): Persistor {
+  const {
+    storage,
+    paths,
+    key = 'auger-state',
+    version = 0,
+    throttle = 0,
+    onError = console.error,
+  } = options;
+  const unsubs: (() => void)[] = [];
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const save = async () => {
+    timeout = null;
+    // Only the persisted paths are copied over to the saved state.
+    let saved: any = {};
+    for (const path of paths) {
+      const value = getIn(store.getState(), path);
+      if (path.length === 0) {
+        saved = value;
+      } else {
+        setPath(saved, path, value);
+      }
+    }
+    const persisted: PersistedState = {version, state: saved};
+    return storage.setItem(key, serialize(persisted));
+  };
+
+  const scheduleSave = () => {
+    if (timeout == null && !stopped) {
+      timeout = setTimeout(() => save().catch(onError), throttle);
+    }
+  };
+
+  // Reads the saved state from the storage, migrating it if needed.
+  const load = async (): Promise<{state: unknown} | null> => {
+    const text = await storage.getItem(key);
+    const persisted = text == null ? null : deserialize<PersistedState>(text);
+    // State saved with another version can't be used without a `migrate`,
+    // so the store keeps its initial state and the saved state is
+    // overwritten by the next save.
+    if (!persisted || (persisted.version !== version && !options.migrate)) {
+      return null;
+    }
+    let saved = persisted.state;
+    if (persisted.version !== version && options.migrate) {
+      saved = await options.migrate(saved, persisted.version);
+    }
+    return {state: saved};
+  };
+
+  // The values of the persisted paths before the saved state is loaded.
+  // Paths that are changed while it loads keep their new value and are
+  // saved once the store is rehydrated.
+  const initial = paths.map((path) => getIn(store.getState(), path));
+
+  // Failing to load the saved state is reported to `onError` and the store
+  // keeps its state, either way the paths are saved from then on.
+  const rehydrate = async () => {
+    let saved: {state: unknown} | null = null;
+    try {
+      saved = await load();
+    } catch (error) {
+      onError(error);
+    }
+    const changed = paths.map(
+      (path, i) => getIn(store.getState(), path) !== initial[i],
+    );
+    if (saved) {
+      const {state} = saved;
+      try {
+        store.update((draft) => {
+          for (let i = 0; i < paths.length; i++) {
+            const path = paths[i];
+            const value = getIn(state, path);
+            if (value === undefined || changed[i]) {
+              continue;
+            } else if (path.length === 0) {
+              return value;
+            }
+            setIn(draft, path, value);
+          }
+          return undefined;
+        });
+      } catch (error) {
+        onError(error);
+      }
+    }
+    if (!stopped) {
+      for (const path of paths) {
+        unsubs.push(store.subscribe(path, scheduleSave));
+      }
+      if (changed.some(Boolean)) {
+        scheduleSave();
+      }
+    }
+  };
+
+  return {
+    hydrated: rehydrate(),
+    flush() {
+      if (timeout == null) {
+        return Promise.resolve();
+      }
+      clearTimeout(timeout);
+      return save();
+    },
+    stop() {
+      stopped = true;
+      if (timeout != null) {
+        clearTimeout(timeout);
+        timeout = null;
+      }
+      unsubs.forEach((unsub) => unsub());
+    },
+  };
+}
+
+// A PersistStorage that keeps everything in memory, useful for tests.
+export function createMemoryStorage(): PersistStorage & {
+  items: Map<string, string>;
+} {
+  const items = new Map<string, string>();
+  return {
+    items,
+    async getItem(key) {
+      return items.get(key);
+    },
+    async setItem(key, value) {
+      items.set(key, value);
+    },
+  };
+}
+
+// Sets a value at a path in a plain object, creating the objects along the
+// path as needed.
+function setPath(target: any, path: SubKey[], value: unknown) {
+  for (const key of path.slice(0, -1)) {
+    if (target[key] == null) {
+      target[key] = {};
+    }
+    target = target[key];
+  }
+  target[path[path.length - 1]] = value;
+}
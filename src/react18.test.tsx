@@ -0,0 +1,134 @@
+import * as React from 'react';
+import {createStore, useAuger} from '.';
+
+// These tests run useAuger on React 18 with a concurrent root. Every module
+// imported by this file gets React 18 for `react` and `react-dom`, including
+// the use-sync-external-store shim which then uses React's own
+// useSyncExternalStore. The other tests run on React 17.
+jest.mock('react', () => jest.requireActual('react-18'));
+jest.mock('react-dom', () => jest.requireActual('react-dom-18'));
+
+type Root = {render(element: React.ReactNode): void; unmount(): void};
+const {
+  createRoot,
+}: {createRoot(container: Element): Root} = require('react-dom-18/client');
+const {act, startTransition} = React as typeof React & {
+  act(fn: () => void): void;
+  startTransition(fn: () => void): void;
+};
+
+type TestState = {
+  counter: number;
+  users: {[id: string]: {name: string}};
+};
+
+function createTestStore() {
+  const state: TestState = {counter: 0, users: {a: {name: 'Sawyer'}}};
+  return createStore(state);
+}
+
+let container: HTMLDivElement;
+let root: Root;
+
+beforeAll(() => {
+  (global as any).IS_REACT_ACT_ENVIRONMENT = true;
+});
+
+afterAll(() => {
+  delete (global as any).IS_REACT_ACT_ENVIRONMENT;
+});
+
+beforeEach(() => {
+  container = document.createElement('div');
+  document.body.appendChild(container);
+  root = createRoot(container);
+});
+
+afterEach(() => {
+  act(() => root.unmount());
+  container.remove();
+});
+
+describe('useAuger on React 18', () => {
+  it('runs on React 18', () => {
+    expect(React.version).toMatch(/^18\./);
+  });
+
+  it('rerenders when a value it read changes', () => {
+    const store = createTestStore();
+    const onRender = jest.fn();
+    function Component() {
+      const auger = useAuger(store);
+      onRender();
+      return <div>{auger.counter.$read()}</div>;
+    }
+    act(() => root.render(<Component />));
+    expect(container.textContent).toBe('0');
+
+    act(() => {
+      store.update((draft) => {
+        draft.counter++;
+      });
+    });
+    expect(container.textContent).toBe('1');
+
+    act(() => {
+      store.update((draft) => {
+        draft.users.a.name = 'Tiff';
+      });
+    });
+    expect(onRender).toBeCalledTimes(2);
+  });
+
+  it("doesn't tear when the store changes during a concurrent render", () => {
+    const store = createTestStore();
+    function Name({id}: {id: string}) {
+      const auger = useAuger(store);
+      return <span data-testid={id}>{auger.users.a.name.$read()}</span>;
+    }
+    function Mutator() {
+      const auger = useAuger(store);
+      if (auger.users.a.name.$read() === 'Sawyer') {
+        store.update((draft) => {
+          draft.users.a.name = 'Tiff';
+        });
+      }
+      return null;
+    }
+    act(() => {
+      startTransition(() => {
+        root.render(
+          <div>
+            <Name id="before" />
+            <Mutator />
+            <Name id="after" />
+          </div>,
+        );
+      });
+    });
+    expect(container.textContent).toBe('TiffTiff');
+  });
+
+  it('picks up updates that land before it subscribes', () => {
+    const store = createTestStore();
+    function Updater() {
+      React.useLayoutEffect(() => {
+        store.update((draft) => {
+          draft.users.a.name = 'Tiff';
+        });
+      }, []);
+      return null;
+    }
+    function Component() {
+      const auger = useAuger(store);
+      return (
+        <div>
+          {auger.users.a.name.$read()}
+          <Updater />
+        </div>
+      );
+    }
+    act(() => root.render(<Component />));
+    expect(container.textContent).toBe('Tiff');
+  });
+});
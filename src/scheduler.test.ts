@@ -0,0 +1,96 @@
+import {createStore} from '.';
+
+type TestState = {
+  counter: {value: number};
+  user: {name: string};
+};
+
+function createTestStore(scheduler: any) {
+  const state: TestState = {counter: {value: 1}, user: {name: 'Sawyer'}};
+  return createStore(state, {scheduler});
+}
+
+describe('schedulers', () => {
+  it('notifies right away with the sync scheduler', () => {
+    const store = createTestStore('sync');
+    const cb = jest.fn();
+    store.subscribe(['counter'], cb);
+
+    store.update((draft) => {
+      draft.counter.value++;
+    });
+
+    expect(cb).toBeCalledTimes(1);
+  });
+
+  it('notifies right away by default', () => {
+    const store = createStore({counter: 0});
+    const cb = jest.fn();
+    store.subscribe(['counter'], cb);
+
+    store.update((draft) => {
+      draft.counter++;
+    });
+
+    expect(cb).toBeCalledTimes(1);
+  });
+
+  it('merges updates made in the same tick with the microtask scheduler', async () => {
+    const store = createTestStore('microtask');
+    const counterCB = jest.fn(() => {
+      // Subscribers see the latest state once they are notified
+      expect(store.getState().counter.value).toBe(3);
+    });
+    const userCB = jest.fn();
+    store.subscribe(['counter', 'value'], counterCB);
+    store.subscribe(['user', 'name'], userCB);
+
+    store.update((draft) => {
+      draft.counter.value++;
+    });
+    store.update((draft) => {
+      draft.counter.value++;
+    });
+    store.update((draft) => {
+      draft.user.name = 'Hood';
+    });
+    expect(counterCB).not.toBeCalled();
+
+    await Promise.resolve();
+
+    expect(counterCB).toBeCalled();
+    expect(userCB).toBeCalledTimes(1);
+  });
+
+  it('uses a user supplied batchedUpdates function', () => {
+    const batchedUpdates = jest.fn((fn: () => void) => fn());
+    const store = createTestStore(batchedUpdates);
+    const cb = jest.fn();
+    store.subscribe(['counter'], cb);
+
+    store.update((draft) => {
+      draft.counter.value++;
+    });
+
+    expect(batchedUpdates).toBeCalledTimes(1);
+    expect(cb).toBeCalledTimes(1);
+  });
+
+  it('can defer notifications of a replaced state', () => {
+    let flush = () => {};
+    const store = createTestStore((notify: () => void) => {
+      flush = notify;
+    });
+    const counterCB = jest.fn();
+    const userCB = jest.fn();
+    store.subscribe(['counter'], counterCB);
+    store.subscribe(['user'], userCB);
+
+    store.setState({counter: {value: 2}, user: store.getState().user});
+    expect(counterCB).not.toBeCalled();
+
+    flush();
+    expect(counterCB).toBeCalledTimes(1);
+    expect(userCB).not.toBeCalled();
+  });
+});
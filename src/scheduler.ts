@@ -0,0 +1,33 @@
+// A Scheduler decides when subscribers are notified of an update. It is
+// passed a function that notifies the subscribers and has to call it,
+// either right away or later. Any function with the signature of React's
+// `unstable_batchedUpdates` can be used as a Scheduler, ex the one from
+// react-dom or react-native. Passing it makes every component that needs to
+// rerender do it together, which React 18 already does on its own.
+export type Scheduler = (notify: () => void) => void;
+
+// The built in schedulers can be picked by name:
+// - 'sync' notifies right away without any batching. This is the default,
+//   the store doesn't depend on any renderer so it works the same with
+//   react-dom, react-native or outside of React.
+// - 'microtask' waits for a microtask before notifying, so the
+//   notifications of every update made in the same tick are merged into a
+//   single pass.
+export type SchedulerOption = 'sync' | 'microtask' | Scheduler;
+
+export const syncScheduler: Scheduler = (notify) => notify();
+
+export const microtaskScheduler: Scheduler = (notify) => {
+  Promise.resolve().then(notify);
+};
+
+export function getScheduler(option: SchedulerOption = 'sync'): Scheduler {
+  switch (option) {
+    case 'sync':
+      return syncScheduler;
+    case 'microtask':
+      return microtaskScheduler;
+    default:
+      return option;
+  }
+}
@@ -0,0 +1,33 @@
+// JSON.stringify turns Maps and Sets into empty objects, so we tag them
+// with their type and store their contents as arrays instead.
+type Tagged =
+  | {__augerType: 'Map'; entries: [unknown, unknown][]}
+  | {__augerType: 'Set'; values: unknown[]};
+
+// Serializes a state to a JSON string, keeping Maps and Sets intact.
+export function serialize(value: unknown): string {
+  return JSON.stringify(value, (_, v) => {
+    if (v instanceof Map) {
+      return {__augerType: 'Map', entries: Array.from(v.entries())};
+    } else if (v instanceof Set) {
+      return {__augerType: 'Set', values: Array.from(v.values())};
+    }
+    return v;
+  });
+}
+
+// Parses a string created by `serialize` back into a state.
+export function deserialize<T = unknown>(text: string): T {
+  return JSON.parse(text, (_, v) => {
+    if (v == null || typeof v !== 'object') {
+      return v;
+    }
+    const tagged = v as Tagged;
+    if (tagged.__augerType === 'Map') {
+      return new Map(tagged.entries);
+    } else if (tagged.__augerType === 'Set') {
+      return new Set(tagged.values);
+    }
+    return v;
+  });
+}
@@ -0,0 +1,117 @@
+import {AugerProvider, createStore, hydrateStore, useAugerContext} from '.';
+import {renderToString} from 'react-dom/server';
+import * as ReactDOM from 'react-dom';
+import {render, screen, act} from '@testing-library/react';
+import * as React from 'react';
+
+type TestState = {
+  user: {name: string};
+  tags: Set<string>;
+  scores: Map<string, number>;
+};
+
+function createTestState(name: string): TestState {
+  return {
+    user: {name},
+    tags: new Set(['admin']),
+    scores: new Map([['a', 1]]),
+  };
+}
+
+function App() {
+  const auger = useAugerContext<TestState>();
+  return (
+    <div>
+      <span data-testid="name">{auger.user.name.$read()}</span>
+      <span>{auger.tags.$has('admin') ? 'admin' : 'user'}</span>
+      <span>{auger.scores.get('a').$read()}</span>
+    </div>
+  );
+}
+
+describe('AugerProvider', () => {
+  it('reads from the store it is given', () => {
+    const store = createStore(createTestState('Sawyer'));
+    render(
+      <AugerProvider store={store}>
+        <App />
+      </AugerProvider>,
+    );
+    expect(screen.getByTestId('name').textContent).toBe('Sawyer');
+
+    act(() => {
+      store.update((draft) => {
+        draft.user.name = 'Tiff';
+      });
+    });
+    expect(screen.getByTestId('name').textContent).toBe('Tiff');
+  });
+
+  it('throws without a provider', () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => render(<App />)).toThrow('inside of an AugerProvider');
+    (console.error as jest.Mock).mockRestore();
+  });
+
+  it("doesn't share state between stores rendered on the server", () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const renderRequest = (name: string) =>
+      renderToString(
+        <AugerProvider store={createStore(createTestState(name))}>
+          <App />
+        </AugerProvider>,
+      );
+    expect(renderRequest('Sawyer')).toContain('Sawyer');
+    expect(renderRequest('Tiff')).toContain('Tiff');
+    (console.error as jest.Mock).mockRestore();
+  });
+});
+
+describe('serialize and hydrateStore', () => {
+  it('keeps maps and sets intact', () => {
+    const store = createStore(createTestState('Sawyer'));
+    const hydrated = hydrateStore<TestState>(store.serialize());
+    expect(hydrated.getState()).toEqual(store.getState());
+    expect(hydrated.getState().tags).toBeInstanceOf(Set);
+    expect(hydrated.getState().scores).toBeInstanceOf(Map);
+  });
+
+  it('escapes the state so it can go in a script tag', () => {
+    const store = createStore({html: '</script>'});
+    expect(store.serialize()).not.toContain('</script>');
+    expect(hydrateStore(store.serialize()).getState()).toEqual({
+      html: '</script>',
+    });
+  });
+
+  it('hydrates server rendered html without a mismatch', () => {
+    // The tests run in jsdom, so React warns about layout effects when
+    // rendering on the server. Those warnings don't happen in node.
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const serverStore = createStore(createTestState('Sawyer'));
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(
+      <AugerProvider store={serverStore}>
+        <App />
+      </AugerProvider>,
+    );
+    const serialized = serverStore.serialize();
+
+    const clientStore = hydrateStore<TestState>(serialized);
+    act(() => {
+      ReactDOM.hydrate(
+        <AugerProvider store={clientStore}>
+          <App />
+        </AugerProvider>,
+        container,
+      );
+    });
+    const mismatches = error.mock.calls.filter(([message]) =>
+      /did not match|Expected server HTML/.test(message),
+    );
+    expect(mismatches).toEqual([]);
+    expect(container.textContent).toBe('Sawyeradmin1');
+    error.mockRestore();
+    ReactDOM.unmountComponentAtNode(container);
+  });
+});
@@ -0,0 +1,1585 @@
+import {
+  Draft,
+  Patch,
+  applyPatches,
+  enableMapSet,
+  produceWithPatches,
+  enablePatches,
+  setAutoFreeze,
+} from 'immer';
+import {STRUCTURE, getChild, getIn, getKeys, pathKey, setIn} from './path';
+import type {SubKey} from './path';
+import {getScheduler} from './scheduler';
+import type {Scheduler, SchedulerOption} from './scheduler';
+import {Derived} from './derive';
+import {getAsyncStatus, isThenable, trackPromise} from './async';
+import type {AsyncStatus, Rejected} from './async';
+import type {DeriveOptions} from './derive';
+import {watch} from './watch';
+import {validate} from './validation';
+import {serialize, deserialize} from './serialize';
+import {focusStore} from './focus';
+import type {FocusedStore} from './focus';
+import {
+  readOnly,
+  removeReadOnlyViews,
+  warnReadOutsideRender,
+  warnUpdateDuringRender,
+} from './dev';
+import type {PathValidator, Validator} from './validation';
+import type {WatchCallback, WatchOptions} from './watch';
+import {defineActions} from './actions';
+import {rebase} from './optimistic';
+import type {OptimisticEntry, OptimisticUpdate} from './optimistic';
+import type {ActionDefinitions, Actions, DefineActionsOptions} from './actions';
+enablePatches();
+enableMapSet();
+setAutoFreeze(false);
+
+const EMPTY_OBJECT = {};
+const EMPTY_FN = () => {};
+
+// This function is a function that will be triggered when a node in the
+// subscriber tree updates. It is called with the path that changed, which
+// is the concrete path that matched when subscribing with a pattern.
+type Subscription = (path: SubKey[]) => void;
+
+// A path segment that matches any single key when subscribing.
+const WILDCARD = '*';
+// A path segment that matches any number of keys (including none).
+const DEEP_WILDCARD = '**';
+
+// A Commit describes a single change to the state of the store. It carries
+// the immer patches that moved the store to the new state along with the
+// inverse patches that can move it back.
+export type Commit<T> = {
+  state: T;
+  patches: Patch[];
+  inversePatches: Patch[];
+  // The origin passed to `applyPatches`, undefined for local changes.
+  origin?: unknown;
+  // The action that made the change, undefined for unnamed updates.
+  action?: Action;
+};
+
+// A named update, see UpdateOptions.
+export type Action = {
+  name: string;
+  payload?: unknown;
+};
+
+export type UpdateOptions = {
+  // Names the update so it can be told apart in the devtools and in action
+  // logs, ex 'todos/add'.
+  name?: string;
+  // The data the update was made with, recorded along with the name.
+  payload?: unknown;
+};
+
+// This function is triggered every time the store commits a new state.
+type CommitListener<T> = (commit: Commit<T>) => void;
+
+// This function is triggered with the patches of every change to the store.
+export type PatchListener = (patches: Patch[], origin: unknown) => void;
+
+export type ApplyPatchesOptions = UpdateOptions & {
+  // Tags the change so listeners can tell where it came from, ex so a sync
+  // adapter doesn't send patches it received back to where they came from.
+  origin?: unknown;
+};
+
+/*
+SubscriberNode is the type that makes the AugerStore work. Most app states
+end up being large, nested JS objects, which can be thought of as trees.
+
+Imagine that we have an application state that looks something like this:
+
+```
+type State = {
+  counter: {value: number};
+  user: {name: string; age: string};
+};
+```
+
+This could be visualized as a tree like so:
+
+state
+├── counter
+│   └── value
+└── user
+    ├── name
+    └── age
+
+In this example, each line is a different subscriber node with a set of all
+of callbacks to be called when the node updates and a list of all children.
+
+AugerStore uses immer to update the state which means that we know the actual
+subset of state was changed and we only have to subscribers listening to those
+subtrees.
+
+Imagine that I update the state like so:
+
+```
+store.update(state => {
+  state.user.age++
+})
+```
+
+In this case we only have to notify subscribers that were listening above the path
+that was updated. In the figure below nodes that had there subscription triggered are
+denoted with an '*'.
+
+*state
+├── counter
+│   └── value
+└── *user
+    ├── name
+    └── *age
+
+Note that anything listening to the root or user have to be notified because they will
+end up with new object references after this update. All of the parts of the state that
+aren't updated (ex the user name and the counter) won't have their subscribers notified!
+
+One thing to note, if you set a property that has children ALL of the children have to
+be notified recursively. Ex if we do this:
+
+```
+store.update(state => {
+  state.user = {name: 'Sawyer', age: 26}
+})
+```
+
+We now have to update all listeners down stream of user:
+
+*state
+├── counter
+│   └── value
+└── *user
+    ├── *name
+    └── *age
+
+The values of a Set are its children, keyed by the values themselves, so
+checking if a Set has a value only subscribes to that value.
+
+Every node can also have a STRUCTURE child. It is notified when a key is
+added to or removed from the node, but not when a value changes, so a list
+can subscribe to which items it has without subscribing to the items.
+
+Subscribing with a pattern like `['users', '*', 'name']` adds nodes for the
+wildcard segments to the same tree. Patches can't tell us which keys under a
+wildcard changed, so the nodes below a wildcard are matched by comparing the
+state from the last time subscribers were notified with the current one.
+
+*/
+type SubscriberNode = {
+  subs: Set<Subscription>;
+  children: Map<SubKey, SubscriberNode>;
+  // The parent and key are kept so empty nodes can be removed from the tree.
+  parent: SubscriberNode | null;
+  key: SubKey;
+  // True if this node or one of its ancestors is a wildcard segment.
+  pattern: boolean;
+  // The number of pattern subscriptions at or below this node, so that
+  // subtrees without any can be skipped when matching patterns.
+  patterns: number;
+};
+
+// Returns the key a child is stored under in the subscriber tree. Numbers
+// are stored as strings since a path can have them either way, ex the index
+// of an array item is a string when read through an Auger but a number in a
+// patch. Nodes keep the key they were created with, so a number key of a Map
+// is still read from the Map as a number.
+function nodeKey(key: SubKey): SubKey {
+  return typeof key === 'number' ? String(key) : key;
+}
+
+function createSubNode(
+  parent: SubscriberNode | null = null,
+  key: SubKey = '',
+): SubscriberNode {
+  return {
+    subs: new Set(),
+    children: new Map(),
+    parent,
+    key,
+    pattern:
+      parent != null &&
+      (parent.pattern || key === WILDCARD || key === DEEP_WILDCARD),
+    patterns: 0,
+  };
+}
+
+// Returns the path from the root of the tree to a node.
+function getNodePath(node: SubscriberNode): SubKey[] {
+  const path: SubKey[] = [];
+  for (let n = node; n.parent; n = n.parent) {
+    path.unshift(n.key);
+  }
+  return path;
+}
+
+// Returns true if a patch adds or removes a key, as opposed to changing the
+// value of a key.
+function isStructural({op, path}: Patch): boolean {
+  return (
+    op === 'add' ||
+    op === 'remove' ||
+    (path.length > 0 && path[path.length - 1] === 'length')
+  );
+}
+
+// Returns the keys of the children that are different between two versions
+// of a node in the state.
+function getChangedKeys(prev: unknown, next: unknown): SubKey[] {
+  const keys = new Set([...getKeys(prev), ...getKeys(next)]);
+  return Array.from(keys).filter(
+    (key) => getChild(prev, key) !== getChild(next, key),
+  );
+}
+
+// A summary of the subscriber tree, useful for finding leaks in tests.
+export type SubscriptionStats = {
+  // The number of SubscriberNodes in the tree, including the root.
+  nodeCount: number;
+  // The total number of subscriptions.
+  subscriberCount: number;
+  // The length of the longest path in the tree.
+  depth: number;
+  // Every path that has subscribers along with how many it has.
+  paths: {path: SubKey[]; subscribers: number}[];
+};
+
+// A single step in the undo history. A step is usually one update, but
+// several updates can be grouped into one step with `store.group`.
+type HistoryEntry = {
+  patches: Patch[];
+  inversePatches: Patch[];
+};
+
+// Everything that is known about an update before it is committed.
+export type PendingUpdate<T> = {
+  updater: (draft: Draft<T>) => void | T;
+  prevState: T;
+  nextState: T;
+  patches: Patch[];
+  inversePatches: Patch[];
+  action?: Action;
+};
+
+// Middleware run around every update before it is committed. A middleware
+// calls `next` to continue with the update, optionally passing a changed
+// update, or doesn't call it at all to veto the update. `next` has to be
+// called synchronously.
+export type Middleware<T> = (
+  update: PendingUpdate<T>,
+  next: (update: PendingUpdate<T>) => void,
+) => void;
+
+// The changes made inside of `store.batch` that haven't been committed yet.
+type Transaction = {
+  patches: Patch[];
+  inversePatches: Patch[];
+  // The changes that should be added to the undo history at commit
+  history: HistoryEntry;
+};
+
+export type StoreOptions<T = any> = {
+  // Enables undo/redo for the store. `limit` is the maximum number of
+  // steps that can be undone, defaults to 100.
+  history?: {limit?: number};
+  // Middleware that every update goes through, in order.
+  middleware?: Middleware<T>[];
+  // Decides when subscribers are notified of updates, defaults to 'sync'.
+  // See scheduler.ts for the options.
+  scheduler?: SchedulerOption;
+  // By default replacing a value notifies every subscriber below it. With
+  // `diff` the old and new values are compared and only the subscribers
+  // whose values changed are notified. Pass `true` to compare by reference
+  // or a function that returns true if two values are equal.
+  diff?: boolean | ((prev: unknown, next: unknown) => boolean);
+  // Enables checks that catch common mistakes, meant for development. Values
+  // read through Augers are read-only and throw an error naming their path
+  // when mutated, and reading or updating at the wrong time in a component
+  // logs a warning. Defaults to false.
+  dev?: boolean;
+};
+
+// The parts of a store that useAuger works with. AugerStore implements it,
+// as do the FocusedStores that `focus` returns.
+export type StoreLike<T> = {
+  getState(): Readonly<T>;
+  subscribe(path: SubKey[], sub: Subscription): () => void;
+  update(fn: (draft: Draft<T>) => void | T, options?: UpdateOptions): void;
+  auger(onRead?: (path: SubKey[]) => void, options?: AugerOptions): Auger<T>;
+  focus<V = any>(path: SubKey[]): FocusedStore<V>;
+};
+
+// The parts of a store that Augers and FocusedStores use, without the type
+// of the state. Every StoreLike is one.
+export type UntypedStore = {
+  getState(): any;
+  subscribe(path: SubKey[], sub: Subscription): () => void;
+  update(fn: (draft: any) => any, options?: UpdateOptions): void;
+  auger(onRead?: (path: SubKey[]) => void, options?: AugerOptions): any;
+  focus(path: SubKey[]): FocusedStore<any>;
+};
+
+export type AugerOptions = {
+  // Returns true while the component the Auger belongs to is rendering,
+  // used for the warnings of the `dev` option.
+  isRendering?: () => boolean;
+};
+
+// The SubscriberNodes affected by a set of changes. `expanded` holds the
+// nodes whose whole subtree has already been collected so overlapping
+// patches don't walk the same subtree twice. `matches` holds the concrete
+// paths that matched each pattern node, keyed by pathKey.
+type AffectedNodes = {
+  nodes: Set<SubscriberNode>;
+  expanded: Set<SubscriberNode>;
+  matches: Map<SubscriberNode, Map<string, SubKey[]>>;
+};
+
+// This is the class that manages all of the subscriptions to different nodes,
+// is responsible for keeping a copy of the current state, updates the state,
+// and most importantly notifies subscribers when the state updates.
+export class AugerStore<T> implements StoreLike<T> {
+  private root: SubscriberNode = createSubNode();
+  private state: T;
+  private listeners: Set<CommitListener<T>> = new Set();
+  private historyLimit: number;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  // The entry that updates are being merged into while inside of `group`
+  private groupEntry: HistoryEntry | null = null;
+  private middleware: Middleware<T>[];
+  private scheduler: Scheduler;
+  // Paths that were updated but whose subscribers haven't been notified yet
+  private pendingPatches: Patch[] = [];
+  // The state before the first `setState` since subscribers were notified
+  private pendingBase: {state: T} | null = null;
+  private isFlushScheduled = false;
+  private transaction: Transaction | null = null;
+  // The state the last time subscribers were notified, used to match
+  // pattern subscriptions and to diff replaced values.
+  private flushedState: T;
+  // The origin of the patches being applied by `applyPatches`
+  private origin: unknown = undefined;
+  // The action of the update being committed
+  private action: Action | undefined = undefined;
+  // Optimistic updates that haven't been committed or rolled back yet
+  private optimisticEntries: Set<OptimisticEntry> = new Set();
+  // Set while rolling back an optimistic update, see `commit`
+  private isRebasing = false;
+  // Set when replaced values should be diffed, see StoreOptions.diff
+  private equals: ((prev: unknown, next: unknown) => boolean) | null;
+  private validators: PathValidator<T>[] = [];
+  private dev: boolean;
+
+  constructor(state: T, options: StoreOptions<T> = {}) {
+    this.state = state;
+    this.flushedState = state;
+    this.historyLimit = options.history ? options.history.limit ?? 100 : 0;
+    this.middleware = options.middleware ?? [];
+    this.scheduler = getScheduler(options.scheduler);
+    this.dev = options.dev ?? false;
+    this.equals =
+      typeof options.diff === 'function'
+        ? options.diff
+        : options.diff
+        ? Object.is
+        : null;
+  }
+
+  getState(): Readonly<T> {
+    return this.state;
+  }
+
+  // Takes a path to the property in the state and a callback to be triggered
+  // when that part of the state changes. This function walks down the path
+  // and creates SubscriberNodes as needed from the root until we are at the
+  // terminal of the path. If the property is removed from the state the
+  // callback is triggered and stays subscribed, so it is triggered again if
+  // the property is added back. The nodes are removed once the callback is
+  // unsubscribed.
+  //
+  // The path can contain wildcards: `'*'` matches any single key and `'**'`
+  // matches any number of keys. The callback is called once for every
+  // concrete path that matches the pattern and changed. Ex:
+  //
+  // store.subscribe(['users', '*', 'name'], (path) => {
+  //   console.log('renamed', path[1]);
+  // });
+  subscribe(path: SubKey[], sub: Subscription): () => void {
+    let node = this.root;
+    for (const key of path) {
+      const child = node.children.get(nodeKey(key));
+      if (child) {
+        node = child;
+      } else {
+        const created = createSubNode(node, key);
+        node.children.set(nodeKey(key), created);
+        node = created;
+      }
+    }
+    if (!node.subs.has(sub)) {
+      node.subs.add(sub);
+      if (node.pattern) {
+        this.countPatterns(node, 1);
+      }
+    }
+
+    return () => {
+      if (node.subs.delete(sub) && node.pattern) {
+        this.countPatterns(node, -1);
+      }
+      this.prune(node);
+    };
+  }
+
+  // Returns a summary of every subscription to the store.
+  inspectSubscriptions(): SubscriptionStats {
+    const stats: SubscriptionStats = {
+      nodeCount: 0,
+      subscriberCount: 0,
+      depth: 0,
+      paths: [],
+    };
+    const visit = (node: SubscriberNode, path: SubKey[]) => {
+      stats.nodeCount++;
+      stats.subscriberCount += node.subs.size;
+      stats.depth = Math.max(stats.depth, path.length);
+      if (node.subs.size) {
+        stats.paths.push({path, subscribers: node.subs.size});
+      }
+      for (const [key, child] of node.children) {
+        visit(child, [...path, key]);
+      }
+    };
+    visit(this.root, []);
+    return stats;
+  }
+
+  // This updates the state and notifies the subscribers of the changed
+  // properties. It takes an updater function that takes in an immer draft
+  // of the state. This function that reads the JSON patches outputted by
+  // immer to notify subscribers for the properties changed. If a validator
+  // rejects the new state a ValidationError is thrown and nothing changes.
+  // Pass a `name` (and a `payload`) to record the update as an action.
+  // Updates made inside of a batch are committed together without a name.
+  update(fn: (draft: Draft<T>) => void | T, options: UpdateOptions = {}) {
+    const [produced, patches, inversePatches] = produceWithPatches(
+      this.state,
+      fn,
+    );
+    const nextState = this.dev
+      ? removeReadOnlyViews(produced as T, patches)
+      : (produced as T);
+    const pending: PendingUpdate<T> = {
+      updater: fn,
+      prevState: this.state,
+      nextState,
+      patches,
+      inversePatches,
+      action:
+        options.name === undefined
+          ? undefined
+          : {name: options.name, payload: options.payload},
+    };
+
+    // Each middleware gets a `next` that calls the middleware after it, the
+    // last one commits the update.
+    const run = (i: number, update: PendingUpdate<T>) => {
+      if (i < this.middleware.length) {
+        this.middleware[i](update, (next) => run(i + 1, next));
+      } else {
+        validate(this.validators, update.nextState, update.patches);
+        this.commit(
+          update.nextState,
+          update.patches,
+          update.inversePatches,
+          update.updater,
+        );
+        this.record(update.patches, update.inversePatches);
+      }
+    };
+    const outer = this.action;
+    this.action = pending.action ?? outer;
+    try {
+      run(0, pending);
+    } finally {
+      this.action = outer;
+    }
+  }
+
+  // Adds a check that runs after every update that touches a path, before
+  // the update is committed. The validator returns the reason the value is
+  // invalid, or nothing if it is valid. Returns a function that removes the
+  // validator. Ex:
+  //
+  // store.addValidator(['counter'], (value) =>
+  //   value < 0 ? 'must not be negative' : undefined,
+  // );
+  addValidator<V = any>(path: SubKey[], fn: Validator<V, T>): () => void {
+    const validator: PathValidator<T> = {path, validate: fn};
+    this.validators.push(validator);
+    return () => {
+      this.validators = this.validators.filter((v) => v !== validator);
+    };
+  }
+
+  // Applies patches made by another store (ex in another tab) to this one.
+  // The patches go through the middleware and the undo history and notify
+  // subscribers the same way an update does.
+  applyPatches(patches: Patch[], options: ApplyPatchesOptions = {}) {
+    const outer = this.origin;
+    this.origin = options.origin;
+    try {
+      this.update((draft) => applyPatches(draft, patches), {
+        name: options.name,
+        payload: options.payload,
+      });
+    } finally {
+      this.origin = outer;
+    }
+  }
+
+  // Applies an update that may have to be reverted later, ex a change that
+  // is shown before the server confirms it. Returns a handle to commit the
+  // update once it is confirmed or roll it back if it failed. Rolling back
+  // only reverts this update: the updates made after it are kept and
+  // applied on top of the state without it, and only the subscribers of
+  // the paths that changed are notified. Ex:
+  //
+  // const change = store.optimistic((draft) => {
+  //   draft.todos[0].isDone = true;
+  // });
+  // api.completeTodo(id).then(change.commit, change.rollback);
+  optimistic(
+    fn: (draft: Draft<T>) => void | T,
+    options?: UpdateOptions,
+  ): OptimisticUpdate {
+    const entry: OptimisticEntry = {patches: [], inversePatches: [], later: []};
+    this.optimisticEntries.add(entry);
+    try {
+      this.update(fn, options);
+    } catch (e) {
+      this.optimisticEntries.delete(entry);
+      throw e;
+    }
+    // The first change recorded is the update itself, unless a middleware
+    // vetoed it.
+    const own = entry.later.shift();
+    if (own) {
+      entry.patches = own.patches;
+      entry.inversePatches = own.inversePatches;
+    }
+    return {
+      commit: () => {
+        this.optimisticEntries.delete(entry);
+      },
+      rollback: () => {
+        if (this.optimisticEntries.delete(entry)) {
+          const patches = rebase(this.state, entry);
+          this.isRebasing = true;
+          try {
+            this.update((draft) => applyPatches(draft, patches));
+          } finally {
+            this.isRebasing = false;
+          }
+        }
+      },
+    };
+  }
+
+  // Reverts the last update (or group of updates). Only subscribers of the
+  // paths touched by the inverse patches are notified.
+  undo() {
+    const entry = this.undoStack.pop();
+    if (!entry) {
+      return;
+    }
+    this.redoStack.push(entry);
+    this.commit(
+      applyPatches(this.state, entry.inversePatches),
+      entry.inversePatches,
+      entry.patches,
+    );
+  }
+
+  // Reapplies the last update that was undone.
+  redo() {
+    const entry = this.redoStack.pop();
+    if (!entry) {
+      return;
+    }
+    this.undoStack.push(entry);
+    this.commit(
+      applyPatches(this.state, entry.patches),
+      entry.patches,
+      entry.inversePatches,
+    );
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  // Every update made while `fn` runs is merged into a single undo step.
+  group(fn: () => void) {
+    if (this.groupEntry) {
+      fn();
+      return;
+    }
+    const entry: HistoryEntry = {patches: [], inversePatches: []};
+    this.groupEntry = entry;
+    try {
+      fn();
+    } finally {
+      this.groupEntry = null;
+      if (entry.patches.length) {
+        this.record(entry.patches, entry.inversePatches);
+      }
+    }
+  }
+
+  // Runs every update made inside of `fn` as a single transaction. The
+  // updates are applied right away so `getState` sees them, but subscribers
+  // and commit listeners are only notified once `fn` returns, and each
+  // subscriber is notified at most once. If `fn` throws every change made
+  // inside of it is rolled back and the error is rethrown.
+  batch(fn: () => void) {
+    const outer = this.transaction;
+    const transaction: Transaction = outer ?? {
+      patches: [],
+      inversePatches: [],
+      history: {patches: [], inversePatches: []},
+    };
+    // Nested batches roll back to where they started, not to the start of
+    // the outermost batch.
+    const {patches, inversePatches, history} = transaction;
+    const rollback = {
+      state: this.state,
+      patches: patches.length,
+      inversePatches: inversePatches.length,
+      historyPatches: history.patches.length,
+      historyInversePatches: history.inversePatches.length,
+      // Undo and redo inside of the batch move entries between the stacks
+      undoStack: this.undoStack.slice(),
+      redoStack: this.redoStack.slice(),
+      // The number of changes made after each pending optimistic update
+      later: new Map<OptimisticEntry, number>(),
+    };
+    this.optimisticEntries.forEach((entry) => {
+      rollback.later.set(entry, entry.later.length);
+    });
+
+    this.transaction = transaction;
+    try {
+      fn();
+    } catch (e) {
+      this.state = rollback.state;
+      patches.length = rollback.patches;
+      // Inverse patches are prepended, so the older ones are at the end
+      inversePatches.splice(0, inversePatches.length - rollback.inversePatches);
+      history.patches.length = rollback.historyPatches;
+      history.inversePatches.splice(
+        0,
+        history.inversePatches.length - rollback.historyInversePatches,
+      );
+      this.undoStack = rollback.undoStack;
+      this.redoStack = rollback.redoStack;
+      this.optimisticEntries.forEach((entry) => {
+        const later = rollback.later.get(entry);
+        if (later === undefined) {
+          // An optimistic update made inside of the batch was rolled back
+          // with it.
+          this.optimisticEntries.delete(entry);
+        } else {
+          entry.later.length = later;
+        }
+      });
+      throw e;
+    } finally {
+      this.transaction = outer;
+    }
+
+    if (!outer && patches.length) {
+      this.publish(patches, inversePatches);
+      this.record(history.patches, history.inversePatches);
+    }
+  }
+
+  // Replaces the entire state of the store, ex when time traveling with the
+  // devtools. We don't have patches from immer here so we walk the subscriber
+  // tree instead and only notify the nodes whose values changed.
+  setState(state: T) {
+    const prevState = this.state;
+    if (this.transaction) {
+      this.commit(
+        state,
+        [{op: 'replace', path: [], value: state}],
+        [{op: 'replace', path: [], value: prevState}],
+      );
+      return;
+    }
+    this.state = state;
+    this.optimisticEntries.forEach((entry) => {
+      entry.later.push({
+        patches: [{op: 'replace', path: [], value: state}],
+        inversePatches: [{op: 'replace', path: [], value: prevState}],
+      });
+    });
+
+    if (!this.pendingBase) {
+      this.pendingBase = {state: prevState};
+    }
+    this.emit({
+      state,
+      patches: [{op: 'replace', path: [], value: state}],
+      inversePatches: [{op: 'replace', path: [], value: prevState}],
+    });
+    this.scheduleFlush();
+  }
+
+  // Registers a listener that is called with the patches of every change
+  // made to the store. This is meant for tooling (ex the devtools) rather
+  // than for UI, use subscribe if you want to know when a value changes.
+  onCommit(listener: CommitListener<T>): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Registers a listener that is called with the patches of every change
+  // made to the store along with their origin. The patches can be sent to
+  // another store and applied there with `applyPatches`.
+  onPatches(listener: PatchListener): () => void {
+    return this.onCommit(({patches, origin}) => listener(patches, origin));
+  }
+
+  // Creates a value that is computed from the state. The paths that `fn`
+  // reads through the auger are tracked so the value is only recomputed
+  // when one of them changes. Ex:
+  //
+  // const doneCount = store.derive((auger) =>
+  //   auger.todos.$read().filter((todo) => todo.isDone).length,
+  // );
+  derive<V>(
+    fn: (auger: Auger<T>) => V,
+    options?: DeriveOptions<V>,
+  ): Derived<V, T> {
+    return new Derived(this, fn, options);
+  }
+
+  // Calls `callback` with the next and previous values at a path along with
+  // the patches that touched it, whenever the value at the path changes.
+  // Returns a function that stops watching. Ex:
+  //
+  // store.watch(['user', 'name'], (next, prev) => {
+  //   api.rename(prev, next);
+  // });
+  watch<V = any>(
+    path: SubKey[],
+    callback: WatchCallback<V>,
+    options?: WatchOptions<V>,
+  ): () => void {
+    return watch(this, path, callback, options);
+  }
+
+  // Creates functions that update the store with named actions. Each
+  // definition takes the draft and the payload the action is called with.
+  // The actions are named after their keys, prefixed with the namespace if
+  // there is one. Ex:
+  //
+  // const todos = store.defineActions(
+  //   {
+  //     add(draft, text: string) {
+  //       draft.todos.push({text, isDone: false});
+  //     },
+  //   },
+  //   {namespace: 'todos'},
+  // );
+  // todos.add('Write docs'); // named 'todos/add'
+  defineActions<A extends ActionDefinitions<T>>(
+    definitions: A,
+    options?: DefineActionsOptions,
+  ): Actions<A> {
+    return defineActions(this, definitions, options);
+  }
+
+  // Adds a slice of state under a key of the root, ex for a feature module
+  // that is loaded later. If the key already has state it is kept, so
+  // loading a module again doesn't reset it. Returns a FocusedStore for the
+  // slice that is typed to it. Ex:
+  //
+  // const cart = store.injectSlice('cart', {items: [] as Item[]});
+  // const auger = useAuger(cart);
+  injectSlice<S>(key: string, initialState: S): FocusedStore<S> {
+    if (getChild(this.state, key) === undefined) {
+      this.update((draft) => {
+        setIn(draft, [key], initialState);
+      });
+    }
+    return this.focus<S>([key]);
+  }
+
+  // Removes a slice added with `injectSlice`.
+  removeSlice(key: string) {
+    if (getChild(this.state, key) === undefined) {
+      return;
+    }
+    this.update((draft: any) => {
+      if (draft instanceof Map) {
+        draft.delete(key);
+      } else {
+        delete draft[key];
+      }
+    });
+  }
+
+  // Returns a store for the subtree at a path. Reads, updates and
+  // subscriptions made through it go to this store. Use an Auger's `$focus`
+  // to get one that is typed to the subtree.
+  focus<V = any>(path: SubKey[]): FocusedStore<V> {
+    return focusStore(this, path);
+  }
+
+  // Serializes the state to a JSON string, keeping Maps and Sets intact. `<`
+  // is escaped so the string can be put in a script tag when rendering on
+  // the server. Use `hydrateStore` to create a store from it.
+  serialize(): string {
+    return serialize(this.state).replace(/</g, '\\u003c');
+  }
+
+  // Creates an Auger for the store. `onRead` is called with every path that
+  // is read through it, which is how useAuger knows what to subscribe to.
+  auger(
+    onRead: (path: SubKey[]) => void = EMPTY_FN,
+    options: AugerOptions = {},
+  ): Auger<T> {
+    return createAuger(this, [], {
+      onRead,
+      dev: this.dev,
+      isRendering: options.isRendering,
+    });
+  }
+
+  // Collects the node of a value that was replaced and the nodes below it.
+  // Without the `diff` option every node below it is collected, with it only
+  // the nodes whose values changed are.
+  private collectReplaced(
+    node: SubscriberNode,
+    path: SubKey[],
+    affected: AffectedNodes,
+    prevState: T,
+  ) {
+    if (this.equals) {
+      this.collectChanged(
+        node,
+        getIn(prevState, path),
+        getIn(this.state, path),
+        affected,
+      );
+    } else {
+      this.collectAllChildren(node, affected);
+    }
+  }
+
+  // Recursively collect a SubscriberNode and all of its children. Subtrees
+  // that were already collected by an overlapping patch are skipped.
+  private collectAllChildren(node: SubscriberNode, affected: AffectedNodes) {
+    if (affected.expanded.has(node)) {
+      return;
+    }
+    affected.expanded.add(node);
+    affected.nodes.add(node);
+    for (const child of node.children.values()) {
+      if (!child.pattern) {
+        this.collectAllChildren(child, affected);
+      }
+    }
+  }
+
+  // Walks the subscriber tree comparing the previous and next value of each
+  // node. Since the state is immutable, if a value is the same reference
+  // nothing below it changed and we can skip the whole subtree. Values that
+  // the `diff` option considers equal are skipped as well.
+  private collectChanged(
+    node: SubscriberNode,
+    prev: unknown,
+    next: unknown,
+    affected: AffectedNodes,
+  ) {
+    if (prev === next || this.equals?.(prev, next)) {
+      return;
+    }
+    affected.nodes.add(node);
+    for (const child of node.children.values()) {
+      if (child.pattern) {
+        continue;
+      }
+      this.collectChanged(
+        child,
+        getChild(prev, child.key),
+        getChild(next, child.key),
+        affected,
+      );
+    }
+  }
+
+  // Sets the new state, notifies the subscribers of every patched path and
+  // lets the commit listeners know about the change. Inside of a batch the
+  // changes are held on to until the batch finishes.
+  private commit(
+    nextState: T,
+    patches: Patch[],
+    inversePatches: Patch[],
+    updater?: (draft: Draft<T>) => void | T,
+  ) {
+    this.state = nextState;
+    // Optimistic updates that are still pending keep every change made
+    // after them, so they can be rolled back later. A rollback is kept as
+    // patches since running its updater again would redo every change it
+    // rebased.
+    this.optimisticEntries.forEach((entry) => {
+      entry.later.push({
+        patches,
+        inversePatches,
+        updater: this.isRebasing ? undefined : updater,
+      });
+    });
+    if (this.transaction) {
+      this.transaction.patches.push(...patches);
+      this.transaction.inversePatches.unshift(...inversePatches);
+      return;
+    }
+    this.publish(patches, inversePatches);
+  }
+
+  // Commit listeners are told about a change before subscribers are
+  // notified, so a subscriber can rely on having seen the patches for it.
+  private publish(patches: Patch[], inversePatches: Patch[]) {
+    const nextState = this.state;
+    this.pendingPatches.push(...patches);
+    this.emit({
+      state: nextState,
+      patches,
+      inversePatches,
+      origin: this.origin,
+      action: this.action,
+    });
+    this.scheduleFlush();
+
+    // Start waiting on any promises that were just put in the state so they
+    // are written back when they settle, even if nothing is reading them.
+    for (const patch of patches) {
+      if (patch.op !== 'remove' && isThenable(patch.value)) {
+        trackPromise(this, patch.path, patch.value);
+      }
+    }
+  }
+
+  // Asks the scheduler to notify the subscribers of everything that changed
+  // since the last time they were notified. If a flush is already scheduled
+  // the changes are picked up by that flush.
+  private scheduleFlush() {
+    if (this.isFlushScheduled) {
+      return;
+    }
+    this.isFlushScheduled = true;
+    this.scheduler(() => {
+      this.isFlushScheduled = false;
+      const patches = this.pendingPatches;
+      const base = this.pendingBase;
+      this.pendingPatches = [];
+      this.pendingBase = null;
+
+      const prevState = this.flushedState;
+      this.flushedState = this.state;
+
+      // We first collect every node affected by the patches and then call
+      // the subscriptions of those nodes, so that each subscription is only
+      // called once even if it is along the path of many patches (ex an
+      // update that touches every item in a large array).
+      const affected: AffectedNodes = {
+        nodes: new Set(),
+        expanded: new Set(),
+        matches: new Map(),
+      };
+      if (base) {
+        this.collectChanged(this.root, base.state, this.state, affected);
+      }
+      for (const patch of patches) {
+        const parentPath = patch.path.slice(0, -1);
+        if (patch.path.length && getIn(this.state, parentPath) instanceof Set) {
+          this.collectMember(parentPath, patch.value, affected);
+        } else {
+          this.collectPath(patch.path, affected, prevState);
+        }
+        if (isStructural(patch)) {
+          const structure = this.findNode(parentPath)?.children.get(STRUCTURE);
+          if (structure) {
+            this.collectAllChildren(structure, affected);
+          }
+        }
+        // Shrinking an array only patches its length, so the items past the
+        // new length are collected here.
+        if (
+          patch.op === 'replace' &&
+          patch.path[patch.path.length - 1] === 'length' &&
+          Array.isArray(getIn(this.state, parentPath))
+        ) {
+          this.findNode(parentPath)?.children.forEach((child, key) => {
+            if (typeof key !== 'symbol' && Number(key) >= patch.value) {
+              this.collectAllChildren(child, affected);
+            }
+          });
+        }
+      }
+      if (this.root.patterns && prevState !== this.state) {
+        this.collectPatterns(this.root, prevState, this.state, [], affected);
+      }
+
+      const calls: [Subscription, SubKey[]][] = [];
+      const called: Set<Subscription> = new Set();
+      affected.nodes.forEach((node) => {
+        if (!node.subs.size) {
+          return;
+        }
+        const path = getNodePath(node);
+        node.subs.forEach((s) => {
+          if (!called.has(s)) {
+            called.add(s);
+            calls.push([s, path]);
+          }
+        });
+      });
+      // Pattern subscriptions are called once for every path they matched.
+      affected.matches.forEach((paths, node) => {
+        paths.forEach((path) => {
+          node.subs.forEach((s) => calls.push([s, path]));
+        });
+      });
+      calls.forEach(([s, path]) => s(path));
+    });
+  }
+
+  private findNode(path: SubKey[]): SubscriberNode | null {
+    let node: SubscriberNode | undefined = this.root;
+    for (const key of path) {
+      node = node.children.get(nodeKey(key));
+      if (!node) {
+        return null;
+      }
+    }
+    return node;
+  }
+
+  // Immer's patches for Sets use the index of the value in the Set as the
+  // key, which isn't stable. Instead we collect the nodes along the path to
+  // the Set and the node for the value that was added or removed, so
+  // subscribers to other values in the Set aren't notified.
+  private collectMember(
+    setPath: SubKey[],
+    value: unknown,
+    affected: AffectedNodes,
+  ) {
+    let node = this.root;
+    affected.nodes.add(node);
+    for (const key of setPath) {
+      const child = node.children.get(nodeKey(key));
+      if (!child || child.pattern) {
+        return;
+      }
+      node = child;
+      affected.nodes.add(node);
+    }
+    const member = node.children.get(nodeKey(value as SubKey));
+    if (member && !member.pattern) {
+      this.collectAllChildren(member, affected);
+    }
+  }
+
+  // Walks the nodes below wildcard segments and records every concrete path
+  // that matches them. `prev` and `next` are the values at `path` from the
+  // last flush and now, which are always different. Nodes without any
+  // pattern subscriptions below them are skipped.
+  private collectPatterns(
+    node: SubscriberNode,
+    prev: unknown,
+    next: unknown,
+    path: SubKey[],
+    affected: AffectedNodes,
+  ) {
+    if (node.pattern && node.subs.size) {
+      let paths = affected.matches.get(node);
+      if (!paths) {
+        paths = new Map();
+        affected.matches.set(node, paths);
+      }
+      paths.set(pathKey(path), path);
+    }
+    for (const [key, child] of node.children) {
+      if (!child.patterns) {
+        continue;
+      } else if (key === DEEP_WILDCARD) {
+        this.collectDeep(child, prev, next, path, affected);
+      } else if (key === WILDCARD) {
+        for (const k of getChangedKeys(prev, next)) {
+          this.collectPatterns(
+            child,
+            getChild(prev, k),
+            getChild(next, k),
+            [...path, k],
+            affected,
+          );
+        }
+      } else {
+        const childPrev = getChild(prev, child.key);
+        const childNext = getChild(next, child.key);
+        if (childPrev !== childNext) {
+          this.collectPatterns(
+            child,
+            childPrev,
+            childNext,
+            [...path, child.key],
+            affected,
+          );
+        }
+      }
+    }
+  }
+
+  // Matches a `'**'` node against a path and everything that changed below
+  // it, since `'**'` can stand in for any number of keys.
+  private collectDeep(
+    node: SubscriberNode,
+    prev: unknown,
+    next: unknown,
+    path: SubKey[],
+    affected: AffectedNodes,
+  ) {
+    this.collectPatterns(node, prev, next, path, affected);
+    for (const k of getChangedKeys(prev, next)) {
+      this.collectDeep(
+        node,
+        getChild(prev, k),
+        getChild(next, k),
+        [...path, k],
+        affected,
+      );
+    }
+  }
+
+  // Adds to the count of pattern subscriptions of a node and its ancestors.
+  private countPatterns(node: SubscriberNode, count: number) {
+    for (let n: SubscriberNode | null = node; n; n = n.parent) {
+      n.patterns += count;
+    }
+  }
+
+  // Walks up from a node removing nodes that have no subscribers and no
+  // children.
+  private prune(node: SubscriberNode) {
+    let current: SubscriberNode | null = node;
+    while (
+      current &&
+      current.parent &&
+      current.subs.size === 0 &&
+      current.children.size === 0
+    ) {
+      const {parent}: SubscriberNode = current;
+      const key = nodeKey(current.key);
+      if (parent.children.get(key) === current) {
+        parent.children.delete(key);
+      }
+      current.parent = null;
+      current = parent;
+    }
+  }
+
+  // Adds an update to the undo history. Inverse patches are prepended when
+  // grouping since undoing has to revert the updates in reverse order.
+  private record(patches: Patch[], inversePatches: Patch[]) {
+    if (!this.historyLimit || !patches.length) {
+      return;
+    }
+    const entry = this.transaction?.history ?? this.groupEntry;
+    if (entry) {
+      entry.patches.push(...patches);
+      entry.inversePatches.unshift(...inversePatches);
+      return;
+    }
+    this.undoStack.push({patches, inversePatches});
+    if (this.undoStack.length > this.historyLimit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
+
+  private emit(commit: Commit<T>) {
+    this.listeners.forEach((listener) => listener(commit));
+  }
+
+  // This collects all of the nodes along the path to the terminal property
+  // and from there all of the children in a recursive manner. `prevState` is
+  // the state subscribers last saw, which the `diff` option compares with.
+  private collectPath(path: SubKey[], affected: AffectedNodes, prevState: T) {
+    let node = this.root;
+    // Replacing the whole state affects every subscriber
+    if (path.length === 0) {
+      this.collectReplaced(node, path, affected, prevState);
+      return;
+    }
+    affected.nodes.add(node);
+
+    for (let i = 0; i < path.length; i++) {
+      const child = node.children.get(nodeKey(path[i]));
+      if (!child || child.pattern) {
+        break;
+      }
+      node = child;
+      if (i === path.length - 1) {
+        this.collectReplaced(node, path, affected, prevState);
+      } else if (affected.expanded.has(node)) {
+        // Everything below this node was already collected
+        break;
+      } else {
+        affected.nodes.add(node);
+      }
+    }
+  }
+}
+
+// This is a callback that updates the state
+type UpdateFn<T> = (draft: Draft<T>) => Draft<T> | void;
+
+// This is the special interface of an Auger.
+type AugerHandles<T> = {
+  // Returns the current value at a property.
+  // When called from a React component this also sets up a subscription
+  // To the store.
+  $read(): T;
+  // This updates this property in the store.
+  $update(updater: UpdateFn<T>): void;
+  // This both returns the current value of the property
+  // and returns a function that can be called to update
+  // the property. This is made to emulate the return shape
+  // of the `useState` hook.
+  $(): [T, (updater: UpdateFn<T>) => void];
+  // Returns a store for this part of the state, which can be passed to
+  // useAuger. See FocusedStore.
+  $focus(): FocusedStore<T>;
+} & (FilterPrimitives<T, never> extends Map<infer K, infer V>
+  ? {get: (key: K) => Auger<V | undefined | NullPart<T>>}
+  : {}) &
+  (FilterPrimitives<T, never> extends Set<infer V> ? SetHandles<V> : {}) &
+  CollectionHandles<T> &
+  ([Extract<T, PromiseLike<any>>] extends [never] ? {} : AsyncHandles<T>);
+
+// These handles are available on Sets. Reading a Set this way only
+// subscribes to what was read, ex `$has` is only notified when that value is
+// added or removed. A missing Set is treated as an empty one.
+type SetHandles<V> = {
+  // Returns if the Set has a value.
+  $has(value: V): boolean;
+  // Returns the number of values in the Set.
+  $size(): number;
+  // Returns the values in the Set as an array.
+  $values(): V[];
+  // Adds a value to the Set.
+  $add(value: V): void;
+  // Removes a value from the Set.
+  $delete(value: V): void;
+};
+
+// These handles are available on arrays, Maps and objects. They only
+// subscribe to the keys of the node, so they are only notified when a key is
+// added or removed and not when the value of a key changes.
+type CollectionHandles<T, C = FilterPrimitives<T, never>> = [C] extends [never]
+  ? {}
+  : [C] extends [Set<any>]
+  ? {}
+  : [C] extends [(infer A)[]]
+  ? StructureHandles<number, A | NullPart<T>>
+  : [C] extends [Map<infer K, infer V>]
+  ? StructureHandles<K, V | NullPart<T>>
+  : StructureHandles<Extract<keyof C, string>, C[keyof C] | NullPart<T>>;
+
+type StructureHandles<K, V> = {
+  // Returns the keys of the node, the indexes of an array.
+  $keys(): K[];
+  // Returns the number of keys in the node.
+  $length(): number;
+  // Returns the keys of the node along with an Auger for each of them. The
+  // Augers can be used to drill into the values, which subscribes to them.
+  $entries(): [K, Auger<V>][];
+};
+
+// These handles are available on nodes that can hold a promise.
+type AsyncHandles<T> = {
+  // Returns the resolved value of the promise. While the promise is pending
+  // this suspends the component by throwing the promise and if the promise
+  // rejected the error is thrown for an error boundary to catch.
+  $suspend(): Resolved<T>;
+  // Returns the status of the promise without suspending.
+  $status(): AsyncStatus<Resolved<T>>;
+};
+
+// The value an async node will have once it resolves.
+type Resolved<T> =
+  | Exclude<T, PromiseLike<any> | Rejected>
+  | (T extends PromiseLike<infer V> ? V : never);
+
+// This helper type returns if the type can be null | undefined
+// and returns never if it can't be either
+type NullPart<T> = Exclude<T, NonNullable<T>>;
+type FilterPrimitives<T, U> = T extends
+  | string
+  | number
+  | null
+  | undefined
+  | symbol
+  | boolean
+  ? U
+  : T;
+
+// In the real world an Auger is a large drill that is used for drilling holes
+// in the ground. In auger-state an Auger is an object that lets you drill down
+// into your state and only subscribe to parts of it. In React you will interface
+// with this via the useAuger hook.
+//
+// This type is a little complex. It checks if the node is a primitive and if so
+// sets the type for that node as the AugerHandles. If the type is an object or array
+// we iterate over all of the values and make sure that are mapped to Augers as well.
+// An important thing to note, if the current node can be nullable, we have to make
+// sure that all of the children's return types can be nullable as well.
+//
+// TODO make sure that we filter out array and map methods
+export type Auger<T> = AugerImpl<T, T>;
+
+type AugerImpl<T, U> = (FilterPrimitives<T, U> extends (infer A)[]
+  ? Auger<A | NullPart<U>>[]
+  : FilterRes<T, U> extends never
+  ? {}
+  : FilterRes<T, U>) &
+  AugerHandles<T>;
+
+type FilterRes<T, U> = FilterPrimitives<
+  Required<{[P in keyof T]: Auger<T[P] | NullPart<U>>}>,
+  never
+>;
+
+// The properties of an Auger that are handles instead of child Augers.
+const HANDLE_KEYS: Set<SubKey> = new Set([
+  '$',
+  '$read',
+  '$update',
+  'get',
+  '$suspend',
+  '$status',
+  '$has',
+  '$size',
+  '$values',
+  '$add',
+  '$delete',
+  '$keys',
+  '$length',
+  '$entries',
+  '$focus',
+]);
+
+// Everything an Auger needs besides the store and its path.
+export type AugerContext = {
+  // Called with every path that is read.
+  onRead: (p: SubKey[]) => void;
+  // Set for stores created with the `dev` option.
+  dev: boolean;
+  // Returns true while the component that the Auger belongs to is rendering.
+  isRendering?: () => boolean;
+};
+
+// Creates an Auger for a path in a store. This is exported for the stores in
+// other modules, everything else should use `store.auger()`.
+export function createAuger<T>(
+  store: UntypedStore,
+  path: SubKey[],
+  context: AugerContext,
+): Auger<T> {
+  const result = new Proxy(EMPTY_OBJECT, {
+    get(_, key) {
+      if (HANDLE_KEYS.has(key)) {
+        return (createAugerHandles(store, path, context) as any)[key];
+      }
+      return createAuger(store, [...path, key], context);
+    },
+  });
+
+  return result as any;
+}
+
+// This builds up the `$`, `$read`, `$update`, async, collection and Set
+// functions for a given node.
+function createAugerHandles<T>(
+  store: UntypedStore,
+  path: SubKey[],
+  context: AugerContext,
+): AugerHandles<T> {
+  const {dev, isRendering} = context;
+
+  // In dev mode we warn about reads outside of render and updates during
+  // render, both of which are easy to do by accident.
+  const onRead = (p: SubKey[]) => {
+    if (dev && isRendering && !isRendering()) {
+      warnReadOutsideRender(p);
+    }
+    context.onRead(p);
+  };
+
+  const update = (fn: (draft: any) => any) => {
+    if (dev && isRendering?.()) {
+      warnUpdateDuringRender(path);
+    }
+    store.update(fn);
+  };
+
+  // In dev mode the values that are read can't be mutated.
+  const view = <V>(value: V, p: SubKey[]): V =>
+    dev ? readOnly(value, p) : value;
+
+  const $read = () => {
+    onRead(path);
+    return view(getIn(store.getState(), path), path);
+  };
+
+  const $update = (fn: UpdateFn<T>) => {
+    update((draft) => {
+      // getIn and setIn go through Maps, which indexing the draft doesn't
+      const newNode = fn(getIn(draft, path));
+      if (newNode === undefined) {
+        return undefined;
+      } else if (path.length === 0) {
+        return newNode;
+      }
+      setIn(draft, path, newNode);
+      return undefined;
+    });
+  };
+
+  const $ = (): [T, typeof $update] => {
+    return [$read() as any, $update];
+  };
+
+  const $status = () => getAsyncStatus(store, path, $read());
+
+  const $suspend = () => {
+    const value = $read();
+    const status = getAsyncStatus(store, path, value);
+    if (status.status === 'pending') {
+      throw value;
+    } else if (status.status === 'rejected') {
+      throw status.error;
+    }
+    return status.value;
+  };
+
+  // The values of a Set are used as keys in paths to subscribe to them, so
+  // they have to be cast to SubKeys.
+  const $has = (value: unknown) => {
+    const memberPath = [...path, value as SubKey];
+    onRead(memberPath);
+    return getIn(store.getState(), memberPath) === true;
+  };
+
+  const $size = () => {
+    const set: Set<unknown> | undefined = $read();
+    return set?.size ?? 0;
+  };
+
+  const $values = () => {
+    const set: Set<unknown> | undefined = $read();
+    return set
+      ? Array.from(set, (value) => view(value, [...path, value as SubKey]))
+      : [];
+  };
+
+  const $add = (value: unknown) => {
+    update((draft) => {
+      getIn(draft, path)?.add(value);
+    });
+  };
+
+  const $delete = (value: unknown) => {
+    update((draft) => {
+      getIn(draft, path)?.delete(value);
+    });
+  };
+
+  // Reads the keys of the node, only subscribing to its structure.
+  const $keys = (): SubKey[] => {
+    onRead([...path, STRUCTURE]);
+    const value = getIn(store.getState(), path);
+    return Array.isArray(value)
+      ? value.map((_, i) => i)
+      : value instanceof Set
+      ? []
+      : getKeys(value);
+  };
+
+  const $length = () => $keys().length;
+
+  // Array indexes are used as strings in paths, the same way the Proxy
+  // gets them. The keys of a Map are used as they are.
+  const $entries = () => {
+    const keys = $keys();
+    const isArray = Array.isArray(getIn(store.getState(), path));
+    return keys.map((key) => [
+      key,
+      createAuger(store, [...path, isArray ? String(key) : key], context),
+    ]);
+  };
+
+  const $focus = () => store.focus(path);
+
+  return {
+    $read,
+    $update,
+    $,
+    $focus,
+    $status,
+    $suspend,
+    $keys,
+    $length,
+    $entries,
+    $has,
+    $size,
+    $values,
+    $add,
+    $delete,
+    get: (key: any) => {
+      return createAuger(store, [...path, key], context);
+    },
+  } as any;
+}
+
+export function createStore<T>(
+  state: T,
+  options?: StoreOptions<T>,
+): AugerStore<T> {
+  return new AugerStore(state, options);
+}
+
+// Creates a store from a state serialized with `store.serialize`, ex on the
+// client with the state that the server rendered with.
+export function hydrateStore<T>(
+  serialized: string,
+  options?: StoreOptions<T>,
+): AugerStore<T> {
+  return new AugerStore(deserialize<T>(serialized), options);
+}
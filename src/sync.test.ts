@@ -0,0 +1,109 @@
+import {createStore, syncStore, createMemoryPortPair} from '.';
+
+type TestState = {
+  todos: {name: string; isDone: boolean}[];
+  counter: number;
+};
+
+function createTestStore() {
+  const state: TestState = {
+    todos: [{name: 'Buy Eggs', isDone: false}],
+    counter: 0,
+  };
+  return createStore(state, {scheduler: 'sync'});
+}
+
+describe('applyPatches', () => {
+  it('notifies subscribers of the patched paths', () => {
+    const store = createTestStore();
+    const counterCB = jest.fn();
+    const todosCB = jest.fn();
+    store.subscribe(['counter'], counterCB);
+    store.subscribe(['todos'], todosCB);
+
+    store.applyPatches([{op: 'replace', path: ['counter'], value: 5}]);
+    expect(store.getState().counter).toBe(5);
+    expect(counterCB).toBeCalledTimes(1);
+    expect(todosCB).not.toBeCalled();
+  });
+
+  it('passes the origin to patch listeners', () => {
+    const store = createTestStore();
+    const listener = jest.fn();
+    store.onPatches(listener);
+
+    store.applyPatches([{op: 'replace', path: ['counter'], value: 5}], {
+      origin: 'remote',
+    });
+    store.update((draft) => {
+      draft.counter++;
+    });
+    expect(listener).toHaveBeenNthCalledWith(
+      1,
+      [{op: 'replace', path: ['counter'], value: 5}],
+      'remote',
+    );
+    expect(listener).toHaveBeenNthCalledWith(
+      2,
+      [{op: 'replace', path: ['counter'], value: 6}],
+      undefined,
+    );
+  });
+
+  it('can be undone', () => {
+    const store = createStore({counter: 0}, {history: {}});
+    store.applyPatches([{op: 'replace', path: ['counter'], value: 5}]);
+    store.undo();
+    expect(store.getState().counter).toBe(0);
+  });
+});
+
+describe('syncStore', () => {
+  it('keeps two stores in sync without echoing patches', () => {
+    const a = createTestStore();
+    const b = createTestStore();
+    const [portA, portB] = createMemoryPortPair();
+    const postA = jest.spyOn(portA, 'postMessage');
+    const postB = jest.spyOn(portB, 'postMessage');
+    syncStore(a, portA);
+    syncStore(b, portB);
+
+    a.update((draft) => {
+      draft.todos.push({name: 'Wear a Mask', isDone: false});
+    });
+    expect(b.getState().todos).toEqual(a.getState().todos);
+
+    b.update((draft) => {
+      draft.todos[1].isDone = true;
+    });
+    expect(a.getState().todos[1].isDone).toBe(true);
+    expect(postA).toBeCalledTimes(1);
+    expect(postB).toBeCalledTimes(1);
+  });
+
+  it('requests the state when connecting', () => {
+    const a = createTestStore();
+    a.update((draft) => {
+      draft.counter = 10;
+    });
+    const b = createTestStore();
+    const [portA, portB] = createMemoryPortPair();
+    syncStore(a, portA);
+    syncStore(b, portB, {requestState: true});
+    expect(b.getState()).toEqual(a.getState());
+  });
+
+  it('stops syncing', () => {
+    const a = createTestStore();
+    const b = createTestStore();
+    const [portA, portB] = createMemoryPortPair();
+    const stop = syncStore(a, portA);
+    syncStore(b, portB);
+    stop();
+
+    a.update((draft) => {
+      draft.counter++;
+    });
+    expect(b.getState().counter).toBe(0);
+  });
+});
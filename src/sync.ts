@@ -0,0 +1,117 @@
+import type {Patch} from 'immer';
+import type {AugerStore} from './store';
+
+// A channel that messages can be sent over to other stores. Use
+// `fromMessagePort` to wrap a BroadcastChannel, a MessagePort, a Worker or a
+// `worker_threads` port.
+export type SyncPort = {
+  postMessage(message: SyncMessage): void;
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+};
+
+export type SyncMessage =
+  | {type: 'patches'; patches: Patch[]}
+  // Asks the other stores to send their whole state.
+  | {type: 'request'};
+
+export type SyncOptions = {
+  // Asks the other stores for their state when connecting, so a store that
+  // joins late (ex a new tab) starts out in sync. Defaults to false.
+  requestState?: boolean;
+};
+
+// The parts of the DOM MessagePort (or BroadcastChannel, Worker) and the
+// node `worker_threads` MessagePort that `fromMessagePort` uses.
+type DOMPort = {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message', listener: (event: any) => void): void;
+  removeEventListener(type: 'message', listener: (event: any) => void): void;
+};
+type NodePort = {
+  postMessage(message: unknown): void;
+  on(type: 'message', listener: (message: any) => void): void;
+  off(type: 'message', listener: (message: any) => void): void;
+};
+
+// Keeps a store in sync with the stores on the other end of a port. Every
+// local change is sent over the port as patches and the patches received
+// from the port are applied to the store. Patches that came from the port
+// are not sent back to it. Returns a function that stops syncing.
+export function syncStore<T>(
+  store: AugerStore<T>,
+  port: SyncPort,
+  options: SyncOptions = {},
+): () => void {
+  // Used as the origin of the patches we apply, so we can tell them apart
+  // from local changes.
+  const origin = {};
+
+  const unsubPatches = store.onPatches((patches, patchOrigin) => {
+    if (patchOrigin !== origin) {
+      port.postMessage({type: 'patches', patches});
+    }
+  });
+
+  const unsubPort = port.subscribe((message) => {
+    switch (message.type) {
+      case 'patches':
+        store.applyPatches(message.patches, {origin});
+        break;
+      case 'request':
+        port.postMessage({
+          type: 'patches',
+          patches: [{op: 'replace', path: [], value: store.getState()}],
+        });
+        break;
+    }
+  });
+
+  if (options.requestState) {
+    port.postMessage({type: 'request'});
+  }
+
+  return () => {
+    unsubPatches();
+    unsubPort();
+  };
+}
+
+// Wraps a BroadcastChannel, a MessagePort, a Worker or a node
+// `worker_threads` port in a SyncPort.
+export function fromMessagePort(port: DOMPort | NodePort): SyncPort {
+  return {
+    postMessage(message) {
+      port.postMessage(message);
+    },
+    subscribe(listener) {
+      if ('addEventListener' in port) {
+        const onMessage = (event: {data: SyncMessage}) => listener(event.data);
+        port.addEventListener('message', onMessage);
+        return () => port.removeEventListener('message', onMessage);
+      }
+      port.on('message', listener);
+      return () => port.off('message', listener);
+    },
+  };
+}
+
+// Creates two SyncPorts that are connected to each other in memory, useful
+// for tests. Messages are delivered synchronously.
+export function createMemoryPortPair(): [SyncPort, SyncPort] {
+  const listeners: [
+    Set<(message: SyncMessage) => void>,
+    Set<(message: SyncMessage) => void>,
+  ] = [new Set(), new Set()];
+  const createPort = (from: number): SyncPort => ({
+    postMessage(message) {
+      listeners[1 - from].forEach((listener) => listener(message));
+    },
+    subscribe(listener) {
+      listeners[from].add(listener);
+      return () => {
+        listeners[from].delete(listener);
+      };
+    },
+  });
+  return [createPort(0), createPort(1)];
+}
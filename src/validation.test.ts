@@ -0,0 +1,102 @@
+import {createStore, ValidationError} from '.';
+
+type TestState = {
+  counter: number;
+  user: {name: string; age: number};
+};
+
+function createTestStore() {
+  const state: TestState = {counter: 0, user: {name: 'Sawyer', age: 26}};
+  const store = createStore(state, {scheduler: 'sync'});
+  store.addValidator(['counter'], (value: number) =>
+    value < 0 ? 'must not be negative' : undefined,
+  );
+  store.addValidator(['user', 'age'], (value) =>
+    typeof value !== 'number' ? 'must be a number' : undefined,
+  );
+  return store;
+}
+
+function catchError(fn: () => void): unknown {
+  try {
+    fn();
+  } catch (e) {
+    return e;
+  }
+  return undefined;
+}
+
+describe('validation', () => {
+  it('rejects an invalid update and keeps the previous state', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.subscribe(['counter'], cb);
+    const prevState = store.getState();
+
+    const error = catchError(() =>
+      store.update((draft) => {
+        draft.counter = -1;
+      }),
+    );
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      path: ['counter'],
+      reason: 'must not be negative',
+    });
+    expect(store.getState()).toBe(prevState);
+    expect(cb).not.toBeCalled();
+  });
+
+  it('validates paths below a replaced value', () => {
+    const store = createTestStore();
+    const error = catchError(() =>
+      store.update(() => ({
+        counter: 1,
+        user: {name: 'Sawyer', age: '26' as any},
+      })),
+    );
+    expect(error).toMatchObject({path: ['user', 'age']});
+    expect(store.getState().counter).toBe(0);
+  });
+
+  it('only runs validators for the paths that were touched', () => {
+    const store = createTestStore();
+    const validator = jest.fn();
+    store.addValidator(['user', 'name'], validator);
+
+    store.update((draft) => {
+      draft.counter++;
+    });
+    expect(validator).not.toBeCalled();
+
+    store.update((draft) => {
+      draft.user.name = 'Tiff';
+    });
+    expect(validator).toBeCalledWith('Tiff', store.getState());
+  });
+
+  it('rolls back the whole batch', () => {
+    const store = createTestStore();
+    expect(() =>
+      store.batch(() => {
+        store.update((draft) => {
+          draft.user.name = 'Tiff';
+        });
+        store.update((draft) => {
+          draft.counter = -1;
+        });
+      }),
+    ).toThrow(ValidationError);
+    expect(store.getState().user.name).toBe('Sawyer');
+  });
+
+  it('can remove a validator', () => {
+    const store = createStore({counter: 0});
+    const remove = store.addValidator(['counter'], () => 'always invalid');
+    remove();
+    store.update((draft) => {
+      draft.counter++;
+    });
+    expect(store.getState().counter).toBe(1);
+  });
+});
@@ -0,0 +1,48 @@
+import type {Patch} from 'immer';
+import {getIn, touches} from './path';
+import type {SubKey} from './path';
+
+// Checks the value at a path after an update. Returns the reason the value
+// is invalid, or nothing if it is valid. Also gets the whole next state for
+// checks that depend on other parts of it.
+export type Validator<V = any, T = any> = (
+  value: V,
+  state: T,
+) => string | null | undefined | void;
+
+// A validator along with the path it checks.
+export type PathValidator<T> = {
+  path: SubKey[];
+  validate: Validator<any, T>;
+};
+
+// Thrown by `update` when a validator rejects the new state. The update isn't
+// committed so the store stays on its previous state.
+export class ValidationError extends Error {
+  constructor(readonly path: SubKey[], readonly reason: string) {
+    super(
+      `Invalid value at ${path.map(String).join('.') || 'root'}: ${reason}`,
+    );
+    this.name = 'ValidationError';
+    // Restores the prototype chain that extending Error loses in ES5.
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+// Runs every validator whose path was touched by the patches against the
+// next state and throws a ValidationError for the first invalid value.
+export function validate<T>(
+  validators: PathValidator<T>[],
+  state: T,
+  patches: Patch[],
+) {
+  for (const {path, validate} of validators) {
+    if (!patches.some((patch) => touches(patch.path, path))) {
+      continue;
+    }
+    const reason = validate(getIn(state, path), state);
+    if (reason) {
+      throw new ValidationError(path, reason);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import {createStore} from '.';
+
+type TestState = {
+  user: {name: string; tags: string[]};
+  counter: number;
+};
+
+function createTestStore() {
+  const state: TestState = {
+    user: {name: 'Sawyer', tags: ['a']},
+    counter: 0,
+  };
+  return createStore(state, {scheduler: 'sync'});
+}
+
+describe('watch', () => {
+  it('passes the next and previous values with the patches', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.watch(['user', 'name'], cb);
+
+    store.update((draft) => {
+      draft.user.name = 'Tiff';
+      draft.counter++;
+    });
+    expect(cb).toBeCalledTimes(1);
+    expect(cb).toBeCalledWith('Tiff', 'Sawyer', [
+      {op: 'replace', path: ['user', 'name'], value: 'Tiff'},
+    ]);
+  });
+
+  it('collects the patches of a parent and children', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.watch(['user'], cb);
+
+    store.batch(() => {
+      store.update((draft) => {
+        draft.user.tags.push('b');
+      });
+      store.update((draft) => {
+        draft.counter++;
+      });
+    });
+    expect(cb).toBeCalledTimes(1);
+    expect(cb.mock.calls[0][2]).toEqual([
+      {op: 'add', path: ['user', 'tags', 1], value: 'b'},
+    ]);
+  });
+
+  it('only fires when equals says the value changed', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.watch(['user', 'tags'], cb, {
+      equals: (prev: string[], next: string[]) => prev.join() === next.join(),
+    });
+
+    store.update((draft) => {
+      draft.user.tags = ['a'];
+    });
+    expect(cb).not.toBeCalled();
+
+    store.update((draft) => {
+      draft.user.tags = ['a', 'b'];
+    });
+    expect(cb).toBeCalledTimes(1);
+    expect(cb.mock.calls[0][0]).toEqual(['a', 'b']);
+    expect(cb.mock.calls[0][1]).toEqual(['a']);
+    expect(cb.mock.calls[0][2]).toHaveLength(2);
+  });
+
+  it('watches paths with number keys', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.watch(['user', 'tags', 0], cb);
+
+    store.update((draft) => {
+      draft.user.tags[0] = 'b';
+    });
+    expect(cb).toBeCalledWith('b', 'a', [
+      {op: 'replace', path: ['user', 'tags', 0], value: 'b'},
+    ]);
+  });
+
+  it('calls the callback right away when immediate', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    store.watch(['counter'], cb, {immediate: true});
+    expect(cb).toBeCalledWith(0, undefined, []);
+  });
+
+  it('stops watching', () => {
+    const store = createTestStore();
+    const cb = jest.fn();
+    const stop = store.watch(['counter'], cb);
+    stop();
+
+    store.update((draft) => {
+      draft.counter++;
+    });
+    expect(cb).not.toBeCalled();
+    expect(store.inspectSubscriptions().nodeCount).toBe(1);
+  });
+});
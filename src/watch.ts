@@ -0,0 +1,63 @@
+import type {Patch} from 'immer';
+import {getIn, touches} from './path';
+import type {SubKey} from './path';
+import type {AugerStore} from './store';
+
+// `prev` is undefined for the first call of an `immediate` watcher.
+export type WatchCallback<V> = (
+  next: V,
+  prev: V | undefined,
+  patches: Patch[],
+) => void;
+
+export type WatchOptions<V> = {
+  // Decides if the value at the path changed, defaults to Object.is.
+  equals?: (prev: V, next: V) => boolean;
+  // Calls the callback right away with the current value. The previous
+  // value is undefined and there are no patches.
+  immediate?: boolean;
+};
+
+// Watches the value at a path in a store. The patches of every commit that
+// touch the path are collected until the value changes, so the callback
+// gets all of the patches that moved it from `prev` to `next`.
+export function watch<V>(
+  store: AugerStore<any>,
+  path: SubKey[],
+  callback: WatchCallback<V>,
+  options: WatchOptions<V> = {},
+): () => void {
+  const equals = options.equals ?? Object.is;
+  let prev: V = getIn(store.getState(), path);
+  let patches: Patch[] = [];
+
+  // Commit listeners run before subscribers are notified, so the patches
+  // are always collected by the time the subscription is called.
+  const unsubCommit = store.onCommit((commit) => {
+    for (const patch of commit.patches) {
+      if (touches(patch.path, path)) {
+        patches.push(patch);
+      }
+    }
+  });
+  const unsub = store.subscribe(path, () => {
+    const next: V = getIn(store.getState(), path);
+    if (equals(prev, next)) {
+      return;
+    }
+    const last = prev;
+    const changes = patches;
+    prev = next;
+    patches = [];
+    callback(next, last, changes);
+  });
+
+  if (options.immediate) {
+    callback(prev, undefined, []);
+  }
+
+  return () => {
+    unsubCommit();
+    unsub();
+  };
+}